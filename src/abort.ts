@@ -0,0 +1,35 @@
+import type { FfmpegCommand } from 'fluent-ffmpeg';
+
+/**
+ * Error thrown when a job's AbortSignal fires mid-pipeline
+ */
+export function cancelledError(): Error {
+  const error = new Error('Job cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw cancelledError();
+}
+
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return (error as Error | undefined)?.name === 'AbortError';
+}
+
+/**
+ * Kill a running ffmpeg command when the signal fires.
+ * Returns a function that detaches the listener once the command settles.
+ */
+export function killOnAbort(command: FfmpegCommand, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => {
+    try {
+      command.kill('SIGKILL');
+    } catch {}
+  };
+  if (signal.aborted) onAbort();
+  else signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
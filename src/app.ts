@@ -1,7 +1,43 @@
 import { Hono } from "hono";
+import type { Context, MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
-import { translateVideoAss, previewVideoAss } from "./subtitleTranslator.js";
+import { streamSSE } from "hono/streaming";
+import {
+  translateVideoAss,
+  previewVideoAss,
+  analyzeVideoAss,
+  rerenderVideoAss,
+  muxLanguageTracks,
+  OUTPUT_MODES,
+  loadRenderState,
+  getRenderSegments,
+  saveRenderSegments,
+  scaleLanguageProgress,
+  ocrWarnings,
+} from "./subtitleTranslator.js";
 import { jobManager } from "./jobManager.js";
+import type { Job, RenderRestore } from "./jobManager.js";
+import { jobQueue } from "./jobQueue.js";
+import { renderChildLanguages } from "./fanOut.js";
+import { isAbortError } from "./abort.js";
+import { callbackUrlError, deliverJobWebhook } from "./webhooks.js";
+import { applySegmentEdits, validateSegments } from "./segments.js";
+import {
+  SUBTITLE_FORMATS,
+  isSubtitleFormat,
+  toSrt,
+  toVtt,
+} from "./subtitleFormats.js";
+import { buildAssSubtitles, COVER_STYLES, PLACEMENTS } from "./subtitleComposer.js";
+import { database } from "./database.js";
+import { getTranslationProvider, translationScope } from "./translationService.js";
+import { normalizeScope, translationMemoryId } from "./translationMemory.js";
+import { createGlossary, findGlossaryViolations } from "./glossary.js";
+import { findLanguage } from "./languages.js";
+import type { TranslationMemoryFilter } from "./translationMemory.js";
+import { evictOcrCache, hashFile, isOcrCacheEnabled } from "./ocrCache.js";
+import type { OcrCacheFilter } from "./ocrCache.js";
+import type { ProgressUpdate, SubtitleSegment } from "./types.js";
 import dotenv from "dotenv";
 import fs from "fs/promises";
 import path from "path";
@@ -47,6 +83,68 @@ async function downloadVideoFromUrl(
   await fs.writeFile(destPath, Buffer.from(buffer));
 }
 
+// How often an open event stream re-reads its job from the database
+const SSE_POLL_INTERVAL_MS = 5000;
+
+// Upper bound on languages in a single multi-language upload
+const MAX_TARGET_LANGUAGES = Number(process.env.MAX_TARGET_LANGUAGES || 10);
+
+// Accepts repeated form fields, a JSON array, or a comma-separated list
+function parseTargetLanguages(values: string[]): string[] {
+  const langs: string[] = [];
+  for (const value of values) {
+    const trimmed = value.trim();
+    if (trimmed.startsWith("[")) {
+      const parsed = JSON.parse(trimmed);
+      if (!Array.isArray(parsed)) throw new Error("targetLanguages must be an array");
+      langs.push(...parsed.map((lang) => String(lang)));
+    } else {
+      langs.push(...trimmed.split(","));
+    }
+  }
+  return [...new Set(langs.map((lang) => lang.trim()).filter(Boolean))];
+}
+
+// Public view of a job, shared by the status endpoint and the event stream
+function jobView(job: Job) {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    queuePosition:
+      job.status === "queued" ? jobQueue.getPosition(job.id) : null,
+    stage: job.stage,
+    stageProgress: job.stageProgress,
+    etaSeconds: job.etaSeconds,
+    targetLanguage: job.targetLanguage,
+    error: job.error,
+    stats: job.stats,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    hasOutput: !!job.outputPath,
+    hasPreview: !!job.previewPath,
+    webhook: job.webhook,
+    parentId: job.parentId,
+    childIds: job.childIds,
+    revision: job.revision,
+    lastRenderError: job.lastRenderError,
+  };
+}
+
+// Payload of the last event sent on a job's stream
+function finalEvent(job: Partial<Job> & { id: string }) {
+  return {
+    status: job.status,
+    stats: job.stats,
+    error: job.error,
+    lastRenderError: job.lastRenderError,
+    downloadUrl:
+      job.status === "completed" && job.outputPath
+        ? `/api/download/${job.id}`
+        : undefined,
+  };
+}
+
 const app = new Hono();
 
 // Enable CORS for frontend
@@ -71,10 +169,18 @@ app.get("/", (c) => {
     endpoints: {
       upload: "POST /api/upload",
       jobs: "GET /api/jobs/:id",
+      jobEvents: "GET /api/jobs/:id/events",
       jobsList: "GET /api/jobs",
+      cancel: "DELETE /api/jobs/:id | POST /api/jobs/:id/cancel",
+      render: "POST /api/jobs/:id/render",
+      segments: "GET|PATCH /api/jobs/:id/segments",
+      glossaries: "POST|GET /api/glossaries, GET|DELETE /api/glossaries/:id",
+      subtitles: "GET /api/jobs/:id/subtitles?format=srt|vtt|ass|json",
       preview: "POST /api/preview",
       download: "GET /api/download/:jobId",
       stats: "GET /api/stats",
+      translationMemory:
+        "GET|POST|DELETE /api/admin/translation-memory, PUT|DELETE /api/admin/translation-memory/:id",
     },
   });
 });
@@ -85,8 +191,12 @@ app.post("/api/upload", async (c) => {
     const formData = await c.req.formData();
     const videoFile = formData.get("video") as File | null;
     const videoUrl = formData.get("videoUrl") as string | null;
-    const targetLanguage = formData.get("targetLanguage") as string;
+    let targetLanguage = formData.get("targetLanguage") as string;
+    const targetLanguagesFields = formData.getAll("targetLanguages") as string[];
     const optionsStr = formData.get("options") as string;
+    const callbackUrlField = formData.get("callbackUrl") as string | null;
+    const glossaryIdField = formData.get("glossaryId") as string | null;
+    const sourceLanguageField = formData.get("sourceLanguage") as string | null;
 
     // Require either file or URL
     if (!videoFile && !videoUrl) {
@@ -106,28 +216,7 @@ app.post("/api/upload", async (c) => {
       );
     }
 
-    if (!targetLanguage) {
-      return c.json(
-        { success: false, error: "targetLanguage is required" },
-        400
-      );
-    }
-
-    // Parse options
-    let options = {};
-    if (optionsStr) {
-      try {
-        options = JSON.parse(optionsStr);
-      } catch (e) {
-        return c.json({ success: false, error: "Invalid options JSON" }, 400);
-      }
-    }
-
-    // Create job
-    const job = jobManager.createJob(targetLanguage, options);
-    let videoPath: string;
-
-    // Handle video file upload
+    // Validate the file before any job row exists, so rejected uploads leave nothing queued
     if (videoFile) {
       // Validate file type
       const allowedTypes = [
@@ -157,7 +246,143 @@ app.post("/api/upload", async (c) => {
           400
         );
       }
+    }
+
+    if (targetLanguage && targetLanguagesFields.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: "Provide either targetLanguage or targetLanguages, not both",
+        },
+        400
+      );
+    }
+
+    // Multi-language upload: one parent job with a child job per language
+    let targetLanguages: string[] = [];
+    if (targetLanguagesFields.length > 0) {
+      try {
+        targetLanguages = parseTargetLanguages(targetLanguagesFields);
+      } catch (e) {
+        return c.json({ success: false, error: "Invalid targetLanguages" }, 400);
+      }
+      if (targetLanguages.length > MAX_TARGET_LANGUAGES) {
+        return c.json(
+          {
+            success: false,
+            error: `Too many target languages. Maximum: ${MAX_TARGET_LANGUAGES}`,
+          },
+          400
+        );
+      }
+      if (targetLanguages.length === 1) targetLanguage = targetLanguages[0];
+    }
+    const isFanOut = targetLanguages.length > 1;
+
+    if (!targetLanguage && !isFanOut) {
+      return c.json(
+        { success: false, error: "targetLanguage or targetLanguages is required" },
+        400
+      );
+    }
+
+    // Parse options
+    let options: any = {};
+    if (optionsStr) {
+      try {
+        options = JSON.parse(optionsStr);
+      } catch (e) {
+        return c.json({ success: false, error: "Invalid options JSON" }, 400);
+      }
+    }
+
+    if (options.outputMode && !OUTPUT_MODES.includes(options.outputMode)) {
+      return c.json(
+        {
+          success: false,
+          error: `outputMode must be one of: ${OUTPUT_MODES.join(", ")}`,
+        },
+        400
+      );
+    }
+    if (options.container && !["mp4", "mkv"].includes(options.container)) {
+      return c.json(
+        { success: false, error: "container must be mp4 or mkv" },
+        400
+      );
+    }
+    if (options.placement && !PLACEMENTS.includes(options.placement)) {
+      return c.json(
+        {
+          success: false,
+          error: `placement must be one of: ${PLACEMENTS.join(", ")}`,
+        },
+        400
+      );
+    }
+    if (options.coverStyle && !COVER_STYLES.includes(options.coverStyle)) {
+      return c.json(
+        {
+          success: false,
+          error: `coverStyle must be one of: ${COVER_STYLES.join(", ")}`,
+        },
+        400
+      );
+    }
+
+    // Source language: form field, or sourceLanguage inside options
+    if (sourceLanguageField) options.sourceLanguage = sourceLanguageField;
+    if (
+      options.sourceLanguage &&
+      options.sourceLanguage !== "auto" &&
+      !findLanguage(String(options.sourceLanguage))
+    ) {
+      return c.json(
+        { success: false, error: `Unknown sourceLanguage: ${options.sourceLanguage}` },
+        400
+      );
+    }
 
+    // Glossary: form field, or glossaryId inside options. The job keeps a
+    // copy, so deleting the glossary later doesn't break it while it waits.
+    if (glossaryIdField) options.glossaryId = glossaryIdField;
+    delete options.glossary;
+    if (options.glossaryId) {
+      const glossary = await database.getGlossary(String(options.glossaryId));
+      if (!glossary) {
+        return c.json(
+          { success: false, error: `Glossary ${options.glossaryId} not found` },
+          400
+        );
+      }
+      options.glossary = glossary;
+    }
+
+    // Webhook target: form field, or callbackUrl inside options
+    const callbackUrl = callbackUrlField || options.callbackUrl;
+    delete options.callbackUrl;
+    const callbackError = callbackUrl ? await callbackUrlError(callbackUrl) : null;
+    if (callbackError) {
+      return c.json({ success: false, error: callbackError }, 400);
+    }
+
+    if (jobQueue.isFull()) {
+      return c.json(
+        { success: false, error: "Server is busy. Please retry later." },
+        503
+      );
+    }
+
+    // Create job
+    const job = await jobManager.createJob(
+      isFanOut ? targetLanguages.join(",") : targetLanguage,
+      options,
+      { callbackUrl }
+    );
+    let videoPath: string;
+
+    // Handle video file upload
+    if (videoFile) {
       // Save uploaded file
       const fileExt = path.extname(videoFile.name) || ".mp4";
       videoPath = path.join(uploadsDir, `${job.id}${fileExt}`);
@@ -170,22 +395,33 @@ app.post("/api/upload", async (c) => {
         videoPath = path.join(uploadsDir, `${job.id}.mp4`);
         await downloadVideoFromUrl(videoUrl, videoPath);
       } catch (error) {
-        jobManager.setJobFailed(job.id, (error as Error).message);
+        await jobManager.setJobFailed(job.id, (error as Error).message);
         return c.json({ success: false, error: (error as Error).message }, 400);
       }
     } else {
       return c.json({ success: false, error: "Video source required" }, 400);
     }
 
+    // Content hash: repeat uploads of the same bytes reuse the cached OCR pass
+    const videoHash = isOcrCacheEnabled() ? await hashFile(videoPath) : undefined;
+
+    // Multi-language uploads share one queue slot; children only track status
+    const children: Job[] = [];
+    for (const lang of isFanOut ? targetLanguages : []) {
+      children.push(await jobManager.createJob(lang, options, { parentId: job.id }));
+    }
+
     // Update job with video path
-    jobManager.updateJob(job.id, { videoPath });
+    await jobManager.updateJob(job.id, {
+      videoPath,
+      childIds: isFanOut ? children.map((child) => child.id) : undefined,
+    });
 
-    // Process asynchronously
-    processVideoJob(job.id, videoPath, targetLanguage, options).catch(
-      (error) => {
-        console.error(`Job ${job.id} failed:`, error);
-        jobManager.setJobFailed(job.id, error.message);
-      }
+    // Process asynchronously once a worker slot is free
+    const queuePosition = jobQueue.enqueue(job.id, (signal) =>
+      isFanOut
+        ? processFanOutJob(job.id, children, videoPath, options, signal, videoHash)
+        : processVideoJob(job.id, videoPath, targetLanguage, options, signal, videoHash)
     );
 
     return c.json(
@@ -193,9 +429,16 @@ app.post("/api/upload", async (c) => {
         success: true,
         jobId: job.id,
         status: job.status,
+        queuePosition,
+        childJobs: isFanOut
+          ? children.map((child) => ({
+              jobId: child.id,
+              targetLanguage: child.targetLanguage,
+            }))
+          : undefined,
         message: videoFile
-          ? "Video uploaded successfully. Processing started."
-          : "Video downloaded from URL. Processing started.",
+          ? "Video uploaded successfully. Job queued for processing."
+          : "Video downloaded from URL. Job queued for processing.",
       },
       202
     ); // 202 Accepted
@@ -212,34 +455,415 @@ app.post("/api/upload", async (c) => {
 });
 
 // Get job status
-app.get("/api/jobs/:id", (c) => {
+app.get("/api/jobs/:id", async (c) => {
   const jobId = c.req.param("id");
-  const job = jobManager.getJob(jobId);
+  const job = await jobManager.getJob(jobId);
 
   if (!job) {
     return c.json({ success: false, error: "Job not found" }, 404);
   }
 
+  // Per-language summary for multi-language uploads
+  const children = [];
+  for (const childId of job.childIds ?? []) {
+    const child = await jobManager.getJob(childId);
+    if (!child) continue;
+    children.push({
+      id: child.id,
+      targetLanguage: child.targetLanguage,
+      status: child.status,
+      progress: child.progress,
+      hasOutput: !!child.outputPath,
+    });
+  }
+
   return c.json({
     success: true,
     job: {
-      id: job.id,
-      status: job.status,
-      progress: job.progress,
-      targetLanguage: job.targetLanguage,
-      error: job.error,
-      stats: job.stats,
-      createdAt: job.createdAt,
-      updatedAt: job.updatedAt,
-      hasOutput: !!job.outputPath,
-      hasPreview: !!job.previewPath,
+      ...jobView(job),
+      children: job.childIds ? children : undefined,
+    },
+  });
+});
+
+// Live job updates (Server-Sent Events)
+app.get("/api/jobs/:id/events", async (c) => {
+  const jobId = c.req.param("id");
+  const job = await jobManager.getJob(jobId);
+
+  if (!job) {
+    return c.json({ success: false, error: "Job not found" }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    const send = (event: string, data: unknown) =>
+      stream.writeSSE({ event, data: JSON.stringify(data) });
+
+    // Late subscribers start from the current state
+    await send("snapshot", jobView(job));
+    if (jobManager.isFinished(job)) {
+      await send(job.status, finalEvent(job));
+      return;
+    }
+
+    let lastUpdatedAt = job.updatedAt;
+    let writes: Promise<void> = Promise.resolve();
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+
+    const push = (task: () => Promise<void>) => {
+      writes = writes.then(task).catch(() => finish());
+    };
+
+    const unsubscribe = jobManager.onJobUpdate(jobId, (updates) => {
+      lastUpdatedAt = Math.max(lastUpdatedAt, updates.updatedAt ?? 0);
+      push(async () => {
+        if (updates.status) await send("status", { status: updates.status });
+        if (updates.progress !== undefined) {
+          await send("progress", {
+            progress: updates.progress,
+            stage: updates.stage,
+            stageProgress: updates.stageProgress,
+            etaSeconds: updates.etaSeconds,
+          });
+        }
+        if (updates.status && jobManager.isFinished({ status: updates.status })) {
+          await send(updates.status, finalEvent({ id: jobId, ...updates }));
+          finish();
+        }
+      });
+    });
+
+    // Jobs processed by another instance never reach this instance's
+    // listeners, so re-read the stored job now and then
+    const poll = setInterval(() => {
+      push(async () => {
+        const latest = await jobManager.getJob(jobId);
+        if (!latest || latest.updatedAt <= lastUpdatedAt) return;
+        lastUpdatedAt = latest.updatedAt;
+        await send("snapshot", jobView(latest));
+        if (jobManager.isFinished(latest)) {
+          await send(latest.status, finalEvent(latest));
+          finish();
+        }
+      });
+    }, SSE_POLL_INTERVAL_MS);
+
+    stream.onAbort(() => finish());
+    await finished;
+    clearInterval(poll);
+    unsubscribe();
+    await writes;
+  });
+});
+
+// Cancel a queued or running job
+async function cancelJob(c: Context, jobId: string) {
+  const job = await jobManager.getJob(jobId);
+
+  if (!job) {
+    return c.json({ success: false, error: "Job not found" }, 404);
+  }
+
+  if (jobManager.isFinished(job)) {
+    return c.json(
+      {
+        success: false,
+        error: "Job already finished. Current status: " + job.status,
+      },
+      409
+    );
+  }
+
+  // Jobs running on another instance are discarded when they start or finish
+  jobQueue.cancel(jobId);
+
+  // A cancelled re-render puts the job back as it was, previous output included
+  if (job.renderRestore) {
+    await restoreRender(jobId, job.renderRestore);
+    return c.json({ success: true, jobId, status: job.renderRestore.status });
+  }
+
+  await jobManager.setJobCancelled(jobId);
+
+  // Cancelling a multi-language job cancels its unfinished languages
+  for (const childId of job.childIds ?? []) {
+    const child = await jobManager.getJob(childId);
+    if (child && !jobManager.isFinished(child)) {
+      await jobManager.setJobCancelled(childId);
+    }
+  }
+
+  return c.json({ success: true, jobId, status: "cancelled" });
+}
+
+app.delete("/api/jobs/:id", (c) => cancelJob(c, c.req.param("id")));
+app.post("/api/jobs/:id/cancel", (c) => cancelJob(c, c.req.param("id")));
+
+// Checks shared by the re-render and segment endpoints. Returns the job and
+// its saved render state, or an error response.
+async function loadRenderableJob(c: Context, jobId: string) {
+  const job = await jobManager.getJob(jobId);
+
+  if (!job) {
+    return { response: c.json({ success: false, error: "Job not found" }, 404) };
+  }
+
+  if (!jobManager.isFinished(job)) {
+    return {
+      response: c.json(
+        {
+          success: false,
+          error: "Job is still running. Current status: " + job.status,
+        },
+        409
+      ),
+    };
+  }
+
+  if (job.childIds) {
+    return {
+      response: c.json(
+        {
+          success: false,
+          error: "Multi-language job. Use each child job instead.",
+          childIds: job.childIds,
+        },
+        400
+      ),
+    };
+  }
+
+  const state = job.workDir ? await loadRenderState(job.workDir) : null;
+  if (!job.workDir || !state) {
+    return {
+      response: c.json(
+        { success: false, error: "Job has no saved translations to re-render" },
+        400
+      ),
+    };
+  }
+
+  return { job, workDir: job.workDir, state };
+}
+
+// Put a finished job back in the queue for a burn-in only render. What the
+// job looked like is kept on its row, so a cancel (even after a restart) or
+// a failure can put it back.
+async function queueRender(job: Job, workDir: string, options: any) {
+  const restore: RenderRestore = {
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    options: job.options,
+    outputPath: job.outputPath,
+    revision: job.revision,
+    stage: job.stage,
+    stageProgress: job.stageProgress,
+    etaSeconds: job.etaSeconds,
+    startedAt: job.startedAt,
+  };
+
+  await jobManager.updateJob(job.id, {
+    status: "queued",
+    progress: 0,
+    error: undefined,
+    options,
+    renderRestore: restore,
+    lastRenderError: undefined,
+  });
+
+  return jobQueue.enqueue(job.id, (signal) =>
+    processRenderJob(job.id, workDir, options, restore, signal)
+  );
+}
+
+// Put a job back as it was before its re-render
+async function restoreRender(jobId: string, restore: RenderRestore, lastRenderError?: string) {
+  await jobManager.updateJob(jobId, { ...restore, renderRestore: undefined, lastRenderError });
+}
+
+// Re-render a finished job with new subtitle styling (no OCR or translation)
+app.post("/api/jobs/:id/render", async (c) => {
+  const jobId = c.req.param("id");
+  const loaded = await loadRenderableJob(c, jobId);
+  if ("response" in loaded) return loaded.response;
+
+  let body: any = {};
+  try {
+    body = await c.req.json();
+  } catch (e) {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+
+  if (jobQueue.isFull()) {
+    return c.json(
+      { success: false, error: "Server is busy. Please retry later." },
+      503
+    );
+  }
+
+  // New styling is layered over the options the job was created with
+  const options = { ...(loaded.job.options || {}), ...(body?.options || {}) };
+  const queuePosition = await queueRender(loaded.job, loaded.workDir, options);
+
+  return c.json(
+    {
+      success: true,
+      jobId,
+      status: "queued",
+      queuePosition,
+      message: "Re-render queued.",
+    },
+    202
+  );
+});
+
+// Timed subtitle segments of a finished job
+app.get("/api/jobs/:id/segments", async (c) => {
+  const jobId = c.req.param("id");
+  const loaded = await loadRenderableJob(c, jobId);
+  if ("response" in loaded) return loaded.response;
+
+  return c.json({
+    success: true,
+    jobId,
+    revision: loaded.job.revision ?? 1,
+    edited: !!loaded.state.segments,
+    glossaryId: loaded.state.glossary?.id,
+    segments: getRenderSegments(loaded.state).map((segment, index) => {
+      const glossary = loaded.state.glossary;
+      const glossaryViolations = glossary
+        ? findGlossaryViolations(segment.originalText, segment.translatedText, glossary)
+        : [];
+      return {
+        index,
+        ...segment,
+        ...(glossaryViolations.length > 0 ? { glossaryViolations } : {}),
+      };
+    }),
+  });
+});
+
+// Edit segments (replace them, or apply edits) and re-render the video
+app.patch("/api/jobs/:id/segments", async (c) => {
+  const jobId = c.req.param("id");
+  const loaded = await loadRenderableJob(c, jobId);
+  if ("response" in loaded) return loaded.response;
+
+  let body: any = {};
+  try {
+    body = await c.req.json();
+  } catch (e) {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+
+  if (!body?.segments === !body?.edits) {
+    return c.json(
+      { success: false, error: "Provide either segments or edits" },
+      400
+    );
+  }
+
+  let segments: SubtitleSegment[];
+  try {
+    segments = body.segments
+      ? validateSegments(body.segments)
+      : applySegmentEdits(getRenderSegments(loaded.state), body.edits);
+  } catch (error) {
+    return c.json({ success: false, error: (error as Error).message }, 400);
+  }
+
+  if (jobQueue.isFull()) {
+    return c.json(
+      { success: false, error: "Server is busy. Please retry later." },
+      503
+    );
+  }
+
+  await saveRenderSegments(loaded.workDir, segments);
+  const queuePosition = await queueRender(
+    loaded.job,
+    loaded.workDir,
+    loaded.job.options || {}
+  );
+
+  return c.json(
+    {
+      success: true,
+      jobId,
+      status: "queued",
+      queuePosition,
+      segments: segments.map((segment, index) => ({ index, ...segment })),
+      message: "Segments saved. Re-render queued.",
+    },
+    202
+  );
+});
+
+// Download the subtitles as a sidecar file
+app.get("/api/jobs/:id/subtitles", async (c) => {
+  const jobId = c.req.param("id");
+  const format = (c.req.query("format") || "srt").toLowerCase();
+
+  if (!isSubtitleFormat(format)) {
+    return c.json(
+      { success: false, error: "format must be one of: srt, vtt, ass, json" },
+      400
+    );
+  }
+
+  const loaded = await loadRenderableJob(c, jobId);
+  if ("response" in loaded) return loaded.response;
+
+  const { state } = loaded;
+  const segments = getRenderSegments(state);
+  let body: string;
+  try {
+    switch (format) {
+      case "srt":
+        body = toSrt(segments);
+        break;
+      case "vtt":
+        body = toVtt(segments);
+        break;
+      case "ass":
+        // Sized from the source video, so it needs the upload to still exist
+        body = await buildAssSubtitles(state.videoPath, segments, state.options);
+        break;
+      case "json":
+        body = JSON.stringify(
+          {
+            jobId,
+            targetLanguage: state.targetLanguage,
+            revision: state.revision,
+            segments,
+          },
+          null,
+          2
+        );
+        break;
+    }
+  } catch (error) {
+    console.error("❌ Subtitle export error:", error);
+    return c.json(
+      { success: false, error: "Source video not found or has been deleted" },
+      404
+    );
+  }
+
+  const { contentType, extension } = SUBTITLE_FORMATS[format];
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="subtitles_${jobId}.${extension}"`,
     },
   });
 });
 
 // List all jobs (for admin/debugging)
-app.get("/api/jobs", (c) => {
-  const jobs = jobManager.getAllJobs().map((job) => ({
+app.get("/api/jobs", async (c) => {
+  const jobs = (await jobManager.getAllJobs()).map((job) => ({
     id: job.id,
     status: job.status,
     progress: job.progress,
@@ -251,10 +875,61 @@ app.get("/api/jobs", (c) => {
   return c.json({
     success: true,
     jobs,
-    stats: jobManager.getJobStats(),
+    stats: await jobManager.getJobStats(),
   });
 });
 
+// Optional bearer token for admin endpoints (open when ADMIN_TOKEN is unset)
+const requireAdmin: MiddlewareHandler = async (c, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (token && c.req.header("Authorization") !== `Bearer ${token}`) {
+    return c.json({ success: false, error: "Unauthorized" }, 401);
+  }
+  await next();
+};
+
+// ===== GLOSSARIES =====
+
+app.post("/api/glossaries", requireAdmin, async (c) => {
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+
+  let glossary;
+  try {
+    glossary = createGlossary(body);
+  } catch (error) {
+    return c.json({ success: false, error: (error as Error).message }, 400);
+  }
+
+  await database.saveGlossary(glossary);
+  return c.json({ success: true, glossary }, 201);
+});
+
+app.get("/api/glossaries", async (c) => {
+  return c.json({ success: true, glossaries: await database.getAllGlossaries() });
+});
+
+app.get("/api/glossaries/:id", async (c) => {
+  const glossary = await database.getGlossary(c.req.param("id"));
+  if (!glossary) {
+    return c.json({ success: false, error: "Glossary not found" }, 404);
+  }
+  return c.json({ success: true, glossary });
+});
+
+// Jobs keep the copy of the glossary taken when they were created
+app.delete("/api/glossaries/:id", requireAdmin, async (c) => {
+  const deleted = await database.deleteGlossary(c.req.param("id"));
+  if (!deleted) {
+    return c.json({ success: false, error: "Glossary not found" }, 404);
+  }
+  return c.json({ success: true, message: "Glossary deleted" });
+});
+
 // Generate preview (without full processing)
 app.post("/api/preview", async (c) => {
   try {
@@ -362,12 +1037,33 @@ app.post("/api/preview", async (c) => {
 // Download processed video
 app.get("/api/download/:jobId", async (c) => {
   const jobId = c.req.param("jobId");
-  const job = jobManager.getJob(jobId);
+  const job = await jobManager.getJob(jobId);
 
   if (!job) {
     return c.json({ success: false, error: "Job not found" }, 404);
   }
 
+  if (job.childIds && !job.outputPath) {
+    return c.json(
+      {
+        success: false,
+        error: "Multi-language job. Download each child job instead.",
+        childIds: job.childIds,
+      },
+      400
+    );
+  }
+
+  if (job.status === "completed" && !job.outputPath) {
+    return c.json(
+      {
+        success: false,
+        error: "Job has no video output. Use GET /api/jobs/:id/subtitles instead.",
+      },
+      400
+    );
+  }
+
   if (job.status !== "completed" || !job.outputPath) {
     return c.json(
       {
@@ -380,11 +1076,12 @@ app.get("/api/download/:jobId", async (c) => {
 
   try {
     const videoBuffer = await fs.readFile(job.outputPath);
-    const filename = `translated_${jobId}.mp4`;
+    const mkv = path.extname(job.outputPath).toLowerCase() === ".mkv";
+    const filename = `translated_${jobId}.${mkv ? "mkv" : "mp4"}`;
 
     return new Response(videoBuffer, {
       headers: {
-        "Content-Type": "video/mp4",
+        "Content-Type": mkv ? "video/x-matroska" : "video/mp4",
         "Content-Disposition": `attachment; filename="${filename}"`,
         "Content-Length": String(videoBuffer.length),
       },
@@ -404,7 +1101,7 @@ app.get("/api/download/:jobId", async (c) => {
 // Get preview image for a job
 app.get("/api/preview/:jobId", async (c) => {
   const jobId = c.req.param("jobId");
-  const job = jobManager.getJob(jobId);
+  const job = await jobManager.getJob(jobId);
 
   if (!job || !job.previewPath) {
     return c.json({ success: false, error: "Preview not available" }, 404);
@@ -423,11 +1120,191 @@ app.get("/api/preview/:jobId", async (c) => {
   }
 });
 
+// ===== ADMIN ENDPOINTS =====
+
+app.use("/api/admin/*", requireAdmin);
+
+function translationMemoryFilter(c: Context): TranslationMemoryFilter {
+  const override = c.req.query("override");
+  const limit = c.req.query("limit");
+  const offset = c.req.query("offset");
+  const targetLanguage = c.req.query("targetLanguage");
+  return {
+    targetLanguage: targetLanguage ? targetLanguage.trim().toLowerCase() : undefined,
+    provider: c.req.query("provider") || undefined,
+    model: c.req.query("model") || undefined,
+    override: override === undefined ? undefined : override === "true",
+    search: c.req.query("q") || undefined,
+    limit: limit ? Math.min(1000, Math.max(1, Number(limit) || 100)) : undefined,
+    offset: offset ? Math.max(0, Number(offset) || 0) : undefined,
+  };
+}
+
+// Inspect cached translations
+app.get("/api/admin/translation-memory", async (c) => {
+  const filter = translationMemoryFilter(c);
+  const entries = await database.listTranslationMemory({
+    ...filter,
+    limit: filter.limit ?? 100,
+  });
+  return c.json({ success: true, entries });
+});
+
+// Pin a translation for a phrase, whether or not it has been cached yet.
+// model and promptVersion default to the provider's current ones.
+app.post("/api/admin/translation-memory", async (c) => {
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+
+  const { sourceText, targetLanguage, translatedText } = body || {};
+  if (
+    typeof sourceText !== "string" ||
+    !sourceText ||
+    typeof targetLanguage !== "string" ||
+    !targetLanguage.trim() ||
+    typeof translatedText !== "string"
+  ) {
+    return c.json(
+      {
+        success: false,
+        error: "sourceText, targetLanguage and translatedText are required strings",
+      },
+      400
+    );
+  }
+
+  const provider = getTranslationProvider(String(body.provider || ""));
+  if (!provider) {
+    return c.json({ success: false, error: `Unknown provider "${body.provider}"` }, 400);
+  }
+  const mode = body.mode ?? "texts";
+  if (mode !== "texts" && mode !== "sequence") {
+    return c.json({ success: false, error: "mode must be texts or sequence" }, 400);
+  }
+
+  if (
+    body.sourceLanguage &&
+    body.sourceLanguage !== "auto" &&
+    !findLanguage(String(body.sourceLanguage))
+  ) {
+    return c.json({ success: false, error: `Unknown sourceLanguage: ${body.sourceLanguage}` }, 400);
+  }
+
+  const current = translationScope(provider, targetLanguage, mode, {
+    sourceLanguage: body.sourceLanguage ? String(body.sourceLanguage) : undefined,
+  });
+  const scope = normalizeScope({
+    ...current,
+    model: body.model ? String(body.model) : current.model,
+    promptVersion: body.promptVersion ? String(body.promptVersion) : current.promptVersion,
+  });
+  const now = Date.now();
+  const entry = {
+    ...scope,
+    id: translationMemoryId(scope, sourceText),
+    sourceText,
+    translatedText,
+    override: true,
+    hits: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await database.saveTranslationMemory([entry]);
+  const [saved] = await database.getTranslationMemory([entry.id]);
+  return c.json({ success: true, entry: saved }, 201);
+});
+
+// Override the translation of a cached entry
+app.put("/api/admin/translation-memory/:id", async (c) => {
+  const id = c.req.param("id");
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+  if (typeof body?.translatedText !== "string") {
+    return c.json({ success: false, error: "translatedText must be a string" }, 400);
+  }
+
+  const [entry] = await database.getTranslationMemory([id]);
+  if (!entry) {
+    return c.json({ success: false, error: "Entry not found" }, 404);
+  }
+
+  await database.saveTranslationMemory([
+    { ...entry, translatedText: body.translatedText, override: true, updatedAt: Date.now() },
+  ]);
+  const [saved] = await database.getTranslationMemory([id]);
+  return c.json({ success: true, entry: saved });
+});
+
+app.delete("/api/admin/translation-memory/:id", async (c) => {
+  const removed = await database.deleteTranslationMemory({ id: c.req.param("id") });
+  if (removed === 0) {
+    return c.json({ success: false, error: "Entry not found" }, 404);
+  }
+  return c.json({ success: true, removed });
+});
+
+// Purge entries matching the same filters as the list endpoint (all when none)
+app.delete("/api/admin/translation-memory", async (c) => {
+  const { limit, offset, ...filter } = translationMemoryFilter(c);
+  const removed = await database.deleteTranslationMemory(filter);
+  return c.json({ success: true, removed });
+});
+
+function ocrCacheFilter(c: Context): OcrCacheFilter {
+  const limit = c.req.query("limit");
+  const offset = c.req.query("offset");
+  return {
+    videoHash: c.req.query("videoHash")?.toLowerCase() || undefined,
+    provider: c.req.query("provider") || undefined,
+    limit: limit ? Math.min(1000, Math.max(1, Number(limit) || 100)) : undefined,
+    offset: offset ? Math.max(0, Number(offset) || 0) : undefined,
+  };
+}
+
+// Inspect cached OCR passes (one per video and settings)
+app.get("/api/admin/ocr-cache", async (c) => {
+  const filter = ocrCacheFilter(c);
+  const entries = await database.listOcrCache({ ...filter, limit: filter.limit ?? 100 });
+  return c.json({ success: true, entries });
+});
+
+app.get("/api/admin/ocr-cache/:id", async (c) => {
+  const entry = await database.getOcrCacheEntry(c.req.param("id"));
+  if (!entry) {
+    return c.json({ success: false, error: "Entry not found" }, 404);
+  }
+  return c.json({ success: true, entry });
+});
+
+app.delete("/api/admin/ocr-cache/:id", async (c) => {
+  const removed = await evictOcrCache({ id: c.req.param("id") });
+  if (removed.length === 0) {
+    return c.json({ success: false, error: "Entry not found" }, 404);
+  }
+  return c.json({ success: true, removed: removed.length });
+});
+
+// Evict entries matching the same filters as the list endpoint (all when none)
+app.delete("/api/admin/ocr-cache", async (c) => {
+  const { limit, offset, ...filter } = ocrCacheFilter(c);
+  const removed = await evictOcrCache(filter);
+  return c.json({ success: true, removed: removed.length });
+});
+
 // API stats
-app.get("/api/stats", (c) => {
+app.get("/api/stats", async (c) => {
   return c.json({
     success: true,
-    stats: jobManager.getJobStats(),
+    stats: await jobManager.getJobStats(),
+    queue: jobQueue.getStats(),
     uptime: process.uptime(),
     memory: process.memoryUsage(),
   });
@@ -507,36 +1384,252 @@ app.post("/preview-ass", async (c) => {
 });
 
 // Background job processor
+// Persist a job's stage reports in order, skipping repeats (ffmpeg emits many)
+function progressWriter(jobId: string, startTime: number) {
+  let lastKey = "";
+  let writes: Promise<void> = Promise.resolve();
+  return {
+    report(update: ProgressUpdate) {
+      const key = `${update.stage}:${update.progress}:${update.current ?? ""}`;
+      if (key === lastKey) return;
+      lastKey = key;
+      writes = writes
+        .then(() => jobManager.updateStage(jobId, update, startTime))
+        .catch(() => {});
+    },
+    flush: () => writes,
+  };
+}
+
 async function processVideoJob(
   jobId: string,
   videoPath: string,
   targetLanguage: string,
-  options: any
+  options: any,
+  signal: AbortSignal,
+  videoHash?: string
 ) {
   const startTime = Date.now();
 
   try {
+    // Skip jobs cancelled while they were waiting for a slot
+    const current = await jobManager.getJob(jobId);
+    if (!current || current.status === "cancelled") return;
+
     // Set status to processing
-    jobManager.setJobProcessing(jobId);
+    await jobManager.setJobProcessing(jobId);
+    const progress = progressWriter(jobId, startTime);
 
     // Process video with progress updates
-    const result = await translateVideoAss(videoPath, targetLanguage, options);
+    const result = await translateVideoAss(videoPath, targetLanguage, options, {
+      signal,
+      onProgress: progress.report,
+      videoHash,
+    }).finally(progress.flush);
+
+    // A cancel may have been recorded by another instance meanwhile
+    const latest = await jobManager.getJob(jobId);
+    if (latest?.status === "cancelled") {
+      await fs.rm(result.workDir, { recursive: true, force: true }).catch(() => {});
+      return;
+    }
 
     // Calculate processing time
     const processingTime = ((Date.now() - startTime) / 1000).toFixed(2) + "s";
 
     // Update job as completed
-    jobManager.setJobCompleted(jobId, result.outputPath, result.workDir, {
+    await jobManager.setJobCompleted(jobId, result.outputPath, result.workDir, {
       ...result.stats,
       processingTime,
     });
 
     console.log(`✅ Job ${jobId} completed in ${processingTime}`);
+    notifyWebhook(jobId);
   } catch (error) {
+    if (isAbortError(error, signal)) {
+      console.log(`🛑 Job ${jobId} cancelled`);
+      await jobManager.setJobCancelled(jobId);
+      return;
+    }
     console.error(`❌ Job ${jobId} failed:`, error);
-    jobManager.setJobFailed(jobId, (error as Error).message);
+    await jobManager.setJobFailed(jobId, (error as Error).message);
+    notifyWebhook(jobId);
     throw error;
   }
 }
 
+// Re-render: only the subtitle burn-in runs again
+async function processRenderJob(
+  jobId: string,
+  workDir: string,
+  options: any,
+  restore: RenderRestore,
+  signal: AbortSignal
+) {
+  const startTime = Date.now();
+
+  try {
+    const current = await jobManager.getJob(jobId);
+    // Cancelled on another instance while waiting, which put the job back
+    if (!current?.renderRestore) return;
+
+    await jobManager.updateJob(jobId, {
+      status: "processing",
+      progress: 0,
+      stage: "encoding",
+      startedAt: startTime,
+    });
+    const progress = progressWriter(jobId, startTime);
+
+    const result = await rerenderVideoAss(workDir, options, {
+      signal,
+      onProgress: progress.report,
+    }).finally(progress.flush);
+
+    // Cancelled on another instance while rendering
+    if (!(await jobManager.getJob(jobId))?.renderRestore) return;
+
+    await jobManager.updateJob(jobId, { revision: result.revision, renderRestore: undefined });
+    await jobManager.setJobCompleted(jobId, result.outputPath, workDir, {
+      ...current.stats,
+      ...result.stats,
+    });
+
+    console.log(`✅ Job ${jobId} re-rendered (revision ${result.revision})`);
+    notifyWebhook(jobId);
+  } catch (error) {
+    if (isAbortError(error, signal)) {
+      console.log(`🛑 Job ${jobId} re-render cancelled, keeping the previous output`);
+      await restoreRender(jobId, restore);
+      return;
+    }
+    // The previous output is still valid, so the job stays as it was and
+    // only reports the failure
+    console.error(`❌ Job ${jobId} re-render failed, keeping the previous output:`, error);
+    await restoreRender(jobId, restore, (error as Error).message);
+    notifyWebhook(jobId);
+    throw error;
+  }
+}
+
+// Multi-language job: analyse the video once, then translate and render
+// each child language in turn. One language failing doesn't stop the others.
+async function processFanOutJob(
+  parentId: string,
+  children: Job[],
+  videoPath: string,
+  options: any,
+  signal: AbortSignal,
+  videoHash?: string
+) {
+  const startTime = Date.now();
+  let workDir: string | undefined;
+
+  const finishChildren = async (finish: (id: string) => Promise<void>) => {
+    for (const child of children) {
+      const latest = await jobManager.getJob(child.id);
+      if (latest && !jobManager.isFinished(latest)) await finish(child.id);
+    }
+  };
+
+  try {
+    const current = await jobManager.getJob(parentId);
+    if (!current || current.status === "cancelled") return;
+
+    await jobManager.setJobProcessing(parentId);
+    for (const child of children) await jobManager.setJobProcessing(child.id);
+
+    const parentProgress = progressWriter(parentId, startTime);
+    const childProgress = children.map((child) =>
+      progressWriter(child.id, startTime)
+    );
+
+    // Shared stages count towards every job
+    const analysis = await analyzeVideoAss(
+      videoPath,
+      {
+        signal,
+        onProgress: (update) => {
+          parentProgress.report(update);
+          childProgress.forEach((p) => p.report(update));
+        },
+        videoHash,
+      },
+      options
+    );
+    workDir = analysis.workDir;
+
+    // Multi-track: languages only produce subtitles, muxed into one video below
+    const multiTrack = options?.outputMode === "multi-track" && !options?.subtitlesOnly;
+    const languageOptions = multiTrack ? { ...options, subtitlesOnly: true } : options;
+    const completedDirs = await renderChildLanguages(analysis, children, languageOptions, signal, {
+      onProgress: (i, update) => {
+        childProgress[i].report(update);
+        parentProgress.report(scaleLanguageProgress(update, i, children.length));
+      },
+      flush: (i) => childProgress[i].flush(),
+    });
+    const completed = completedDirs.length;
+
+    let multiTrackOutput: Awaited<ReturnType<typeof muxLanguageTracks>> | undefined;
+    if (multiTrack && completed > 0) {
+      parentProgress.report({ stage: "encoding", progress: 99 });
+      multiTrackOutput = await muxLanguageTracks(
+        videoPath,
+        completedDirs,
+        analysis.workDir,
+        options,
+        { signal }
+      );
+    }
+    await parentProgress.flush();
+
+    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2) + "s";
+    if (completed === 0) {
+      await jobManager.setJobFailed(parentId, "No language could be translated");
+    } else {
+      await jobManager.setJobCompleted(
+        parentId,
+        multiTrackOutput?.outputPath,
+        analysis.workDir,
+        {
+          framesProcessed: analysis.framesProcessed,
+          ocrCallsSaved: analysis.ocrCallsSaved,
+          ocrFailedFrames: analysis.ocrFailedFrames || undefined,
+          ocrCached: analysis.ocrCached || undefined,
+          warnings: ocrWarnings(analysis),
+          languagesCompleted: completed,
+          languagesFailed: children.length - completed,
+          subtitleTracks: multiTrackOutput?.tracks,
+          outputSize: multiTrackOutput?.outputSize,
+          processingTime,
+        }
+      );
+    }
+    console.log(`✅ Job ${parentId} finished ${completed}/${children.length} languages in ${processingTime}`);
+    notifyWebhook(parentId);
+  } catch (error) {
+    if (isAbortError(error, signal)) {
+      console.log(`🛑 Job ${parentId} cancelled`);
+      if (workDir) await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+      await jobManager.setJobCancelled(parentId);
+      await finishChildren((id) => jobManager.setJobCancelled(id));
+      return;
+    }
+    console.error(`❌ Job ${parentId} failed:`, error);
+    const message = (error as Error).message;
+    await jobManager.setJobFailed(parentId, message);
+    await finishChildren((id) => jobManager.setJobFailed(id, message));
+    notifyWebhook(parentId);
+    throw error;
+  }
+}
+
+// Deliver in the background so retries don't hold a worker slot
+function notifyWebhook(jobId: string) {
+  deliverJobWebhook(jobId).catch((error) => {
+    console.error(`❌ Webhook for ${jobId} failed:`, (error as Error).message);
+  });
+}
+
 export default app;
@@ -1,29 +1,192 @@
 import dotenv from 'dotenv';
-import type { Job } from './jobManager.js';
+import type { Job, JobStatus } from './jobManager.js';
+import type { TranslationMemoryEntry, TranslationMemoryFilter } from './translationMemory.js';
+import type { Glossary } from './glossary.js';
+import type { OcrCacheEntry, OcrCacheFilter } from './ocrCache.js';
 
 dotenv.config();
 
 const DB_TYPE = process.env.DB_TYPE || 'memory'; // 'memory' | 'postgres' | 'mysql' | 'sqlite'
 
 export interface DatabaseProvider {
+  // Settles once the provider can serve queries; rejects when it can't start
+  // (e.g. its driver is not installed or the database is unreachable)
+  readonly ready: Promise<void>;
+
   saveJob(job: Job): Promise<void>;
   getJob(id: string): Promise<Job | null>;
   updateJob(id: string, updates: Partial<Job>): Promise<void>;
   getAllJobs(): Promise<Job[]>;
+  countJobs(): Promise<number>;
+  // The `limit` least recently updated jobs in `statuses`, oldest first
+  getOldestJobs(statuses: JobStatus[], limit: number): Promise<Job[]>;
   deleteJob(id: string): Promise<void>;
-  cleanup(olderThan: number): Promise<number>;
+  // Removes jobs not updated within `olderThan` ms (optionally only those in
+  // `statuses`) and returns the removed rows so callers can delete their files.
+  cleanup(olderThan: number, statuses?: JobStatus[]): Promise<Job[]>;
+
+  // Translation memory, shared across jobs. Saving never replaces an
+  // overridden entry with a provider one.
+  getTranslationMemory(ids: string[], countHits?: boolean): Promise<TranslationMemoryEntry[]>;
+  saveTranslationMemory(entries: TranslationMemoryEntry[]): Promise<void>;
+  listTranslationMemory(filter?: TranslationMemoryFilter): Promise<TranslationMemoryEntry[]>;
+  deleteTranslationMemory(filter?: TranslationMemoryFilter & { id?: string }): Promise<number>;
+
+  // OCR cache index; the cached detections themselves live in storage.
+  // Deleting returns the removed entries so callers can delete their payloads.
+  getOcrCacheEntry(id: string, countHit?: boolean): Promise<OcrCacheEntry | null>;
+  saveOcrCacheEntry(entry: OcrCacheEntry): Promise<void>;
+  listOcrCache(filter?: OcrCacheFilter): Promise<OcrCacheEntry[]>;
+  deleteOcrCache(filter?: OcrCacheFilter & { id?: string }): Promise<OcrCacheEntry[]>;
+
+  saveGlossary(glossary: Glossary): Promise<void>;
+  getGlossary(id: string): Promise<Glossary | null>;
+  getAllGlossaries(): Promise<Glossary[]>;
+  deleteGlossary(id: string): Promise<boolean>;
+}
+
+function matchesTranslationFilter(
+  entry: TranslationMemoryEntry,
+  filter: TranslationMemoryFilter & { id?: string }
+): boolean {
+  const search = filter.search?.toLowerCase();
+  return (
+    (filter.id === undefined || entry.id === filter.id) &&
+    (filter.targetLanguage === undefined || entry.targetLanguage === filter.targetLanguage) &&
+    (filter.provider === undefined || entry.provider === filter.provider) &&
+    (filter.model === undefined || entry.model === filter.model) &&
+    (filter.override === undefined || entry.override === filter.override) &&
+    (!search ||
+      entry.sourceText.toLowerCase().includes(search) ||
+      entry.translatedText.toLowerCase().includes(search))
+  );
+}
+
+// WHERE clause shared by the SQL providers; `param` renders the n-th placeholder
+function translationFilterSql(
+  filter: TranslationMemoryFilter & { id?: string },
+  param: (n: number) => string,
+  like: string
+): { where: string; params: any[] } {
+  const clauses: string[] = [];
+  const params: any[] = [];
+  const add = (clause: (p: string) => string, value: any) => {
+    params.push(value);
+    clauses.push(clause(param(params.length)));
+  };
+  if (filter.id !== undefined) add((p) => `id = ${p}`, filter.id);
+  if (filter.targetLanguage !== undefined) add((p) => `target_language = ${p}`, filter.targetLanguage);
+  if (filter.provider !== undefined) add((p) => `provider = ${p}`, filter.provider);
+  if (filter.model !== undefined) add((p) => `model = ${p}`, filter.model);
+  if (filter.override !== undefined) add((p) => `override = ${p}`, filter.override);
+  if (filter.search) {
+    params.push(`%${filter.search}%`, `%${filter.search}%`);
+    clauses.push(
+      `(source_text ${like} ${param(params.length - 1)} OR translated_text ${like} ${param(params.length)})`
+    );
+  }
+  return { where: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+// Job fields and the columns they are stored in; JSON columns are serialized
+const JOB_COLUMNS: { [K in keyof Job]?: { column: string; json?: boolean } } = {
+  status: { column: 'status' },
+  targetLanguage: { column: 'target_language' },
+  options: { column: 'options', json: true },
+  videoPath: { column: 'video_path' },
+  outputPath: { column: 'output_path' },
+  previewPath: { column: 'preview_path' },
+  workDir: { column: 'work_dir' },
+  progress: { column: 'progress' },
+  error: { column: 'error' },
+  stats: { column: 'stats', json: true },
+  createdAt: { column: 'created_at' },
+  updatedAt: { column: 'updated_at' },
+  stage: { column: 'stage' },
+  stageProgress: { column: 'stage_progress', json: true },
+  etaSeconds: { column: 'eta_seconds' },
+  startedAt: { column: 'started_at' },
+  webhook: { column: 'webhook', json: true },
+  parentId: { column: 'parent_id' },
+  childIds: { column: 'child_ids', json: true },
+  revision: { column: 'revision' },
+  renderRestore: { column: 'render_restore', json: true },
+  lastRenderError: { column: 'last_render_error' },
+};
+
+/**
+ * Single-statement UPDATE of only the fields present in `updates` (a field
+ * set to undefined is cleared), so concurrent writers of other fields, e.g.
+ * progress and a cancellation, never overwrite each other
+ */
+function jobUpdateSql(
+  id: string,
+  updates: Partial<Job>,
+  param: (n: number) => string
+): { sql: string; params: any[] } {
+  const changes: Partial<Job> = { ...updates, updatedAt: updates.updatedAt ?? Date.now() };
+  const params: any[] = [];
+  const assignments: string[] = [];
+  for (const key of Object.keys(changes) as (keyof Job)[]) {
+    const mapping = JOB_COLUMNS[key];
+    if (!mapping) continue;
+    const value = changes[key];
+    params.push(mapping.json ? JSON.stringify(value) : value);
+    assignments.push(`${mapping.column} = ${param(params.length)}`);
+  }
+  // Last, so positional placeholders (SQLite's `?`) bind in order too
+  params.push(id);
+  return { sql: `UPDATE jobs SET ${assignments.join(', ')} WHERE id = ${param(params.length)}`, params };
+}
+
+// pg and better-sqlite3 are optional dependencies, only needed for their
+// DB_TYPE, so say which one is missing rather than failing on a bare import
+function missingDriver(name: string) {
+  return (error: any): never => {
+    if (error?.code !== 'ERR_MODULE_NOT_FOUND') throw error;
+    throw new Error(`DB_TYPE=${DB_TYPE} needs the ${name} package, which is not installed (npm install ${name})`);
+  };
+}
+
+function matchesOcrCacheFilter(entry: OcrCacheEntry, filter: OcrCacheFilter & { id?: string }): boolean {
+  return (
+    (filter.id === undefined || entry.id === filter.id) &&
+    (filter.videoHash === undefined || entry.videoHash === filter.videoHash) &&
+    (filter.provider === undefined || entry.provider === filter.provider)
+  );
+}
+
+function ocrCacheFilterSql(
+  filter: OcrCacheFilter & { id?: string },
+  param: (n: number) => string
+): { where: string; params: any[] } {
+  const clauses: string[] = [];
+  const params: any[] = [];
+  const add = (column: string, value: any) => {
+    params.push(value);
+    clauses.push(`${column} = ${param(params.length)}`);
+  };
+  if (filter.id !== undefined) add('id', filter.id);
+  if (filter.videoHash !== undefined) add('video_hash', filter.videoHash);
+  if (filter.provider !== undefined) add('provider', filter.provider);
+  return { where: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '', params };
 }
 
 // In-memory database (default, no persistence)
 class MemoryDatabase implements DatabaseProvider {
   private jobs: Map<string, Job> = new Map();
+  private translations: Map<string, TranslationMemoryEntry> = new Map();
+  private ocrCache: Map<string, OcrCacheEntry> = new Map();
+  private glossaries: Map<string, Glossary> = new Map();
+  readonly ready = Promise.resolve();
 
   async saveJob(job: Job): Promise<void> {
     this.jobs.set(job.id, { ...job });
   }
 
   async getJob(id: string): Promise<Job | null> {
-    return this.jobs.get(id) || null;
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
   }
 
   async updateJob(id: string, updates: Partial<Job>): Promise<void> {
@@ -35,37 +198,158 @@ class MemoryDatabase implements DatabaseProvider {
   }
 
   async getAllJobs(): Promise<Job[]> {
-    return Array.from(this.jobs.values());
+    return Array.from(this.jobs.values())
+      .map((job) => ({ ...job }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async countJobs(): Promise<number> {
+    return this.jobs.size;
+  }
+
+  async getOldestJobs(statuses: JobStatus[], limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => statuses.includes(job.status))
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
   }
 
   async deleteJob(id: string): Promise<void> {
     this.jobs.delete(id);
   }
 
-  async cleanup(olderThan: number): Promise<number> {
+  async cleanup(olderThan: number, statuses?: JobStatus[]): Promise<Job[]> {
     const now = Date.now();
-    let count = 0;
+    const removed: Job[] = [];
     for (const [id, job] of this.jobs.entries()) {
+      if (statuses && !statuses.includes(job.status)) continue;
       if (now - job.updatedAt > olderThan) {
         this.jobs.delete(id);
-        count++;
+        removed.push(job);
+      }
+    }
+    return removed;
+  }
+
+  async getTranslationMemory(ids: string[], countHits = false): Promise<TranslationMemoryEntry[]> {
+    const found: TranslationMemoryEntry[] = [];
+    for (const id of ids) {
+      const entry = this.translations.get(id);
+      if (!entry) continue;
+      if (countHits) entry.hits++;
+      found.push({ ...entry });
+    }
+    return found;
+  }
+
+  async saveTranslationMemory(entries: TranslationMemoryEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const existing = this.translations.get(entry.id);
+      if (existing?.override && !entry.override) continue;
+      this.translations.set(entry.id, {
+        ...entry,
+        hits: existing?.hits ?? entry.hits,
+        createdAt: existing?.createdAt ?? entry.createdAt,
+      });
+    }
+  }
+
+  async listTranslationMemory(filter: TranslationMemoryFilter = {}): Promise<TranslationMemoryEntry[]> {
+    const offset = filter.offset ?? 0;
+    return Array.from(this.translations.values())
+      .filter((entry) => matchesTranslationFilter(entry, filter))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(offset, filter.limit !== undefined ? offset + filter.limit : undefined)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async deleteTranslationMemory(
+    filter: TranslationMemoryFilter & { id?: string } = {}
+  ): Promise<number> {
+    let removed = 0;
+    for (const entry of Array.from(this.translations.values())) {
+      if (matchesTranslationFilter(entry, filter)) {
+        this.translations.delete(entry.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async getOcrCacheEntry(id: string, countHit = false): Promise<OcrCacheEntry | null> {
+    const entry = this.ocrCache.get(id);
+    if (!entry) return null;
+    if (countHit) {
+      entry.hits++;
+      entry.lastUsedAt = Date.now();
+    }
+    return structuredClone(entry);
+  }
+
+  async saveOcrCacheEntry(entry: OcrCacheEntry): Promise<void> {
+    const existing = this.ocrCache.get(entry.id);
+    this.ocrCache.set(entry.id, {
+      ...structuredClone(entry),
+      hits: existing?.hits ?? entry.hits,
+      createdAt: existing?.createdAt ?? entry.createdAt,
+    });
+  }
+
+  async listOcrCache(filter: OcrCacheFilter = {}): Promise<OcrCacheEntry[]> {
+    const offset = filter.offset ?? 0;
+    return Array.from(this.ocrCache.values())
+      .filter((entry) => matchesOcrCacheFilter(entry, filter))
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+      .slice(offset, filter.limit !== undefined ? offset + filter.limit : undefined)
+      .map((entry) => structuredClone(entry));
+  }
+
+  async deleteOcrCache(filter: OcrCacheFilter & { id?: string } = {}): Promise<OcrCacheEntry[]> {
+    const removed: OcrCacheEntry[] = [];
+    for (const entry of Array.from(this.ocrCache.values())) {
+      if (matchesOcrCacheFilter(entry, filter)) {
+        this.ocrCache.delete(entry.id);
+        removed.push(entry);
       }
     }
-    return count;
+    return removed;
+  }
+
+  async saveGlossary(glossary: Glossary): Promise<void> {
+    this.glossaries.set(glossary.id, structuredClone(glossary));
+  }
+
+  async getGlossary(id: string): Promise<Glossary | null> {
+    const glossary = this.glossaries.get(id);
+    return glossary ? structuredClone(glossary) : null;
+  }
+
+  async getAllGlossaries(): Promise<Glossary[]> {
+    return Array.from(this.glossaries.values())
+      .map((glossary) => structuredClone(glossary))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async deleteGlossary(id: string): Promise<boolean> {
+    return this.glossaries.delete(id);
   }
 }
 
 // PostgreSQL database
 class PostgresDatabase implements DatabaseProvider {
   private pool: any;
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.initializePool();
+    this.ready = this.initializePool();
+    // Reported by whoever awaits it (the server at startup), not as an unhandled rejection
+    this.ready.catch(() => {});
   }
 
   private async initializePool() {
     try {
-      const { Pool } = await import('pg');
+      const { Pool } = await import('pg').catch(missingDriver('pg'));
       this.pool = new Pool({
         connectionString: process.env.DATABASE_URL,
         ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : false,
@@ -81,7 +365,18 @@ class PostgresDatabase implements DatabaseProvider {
           video_path TEXT,
           output_path TEXT,
           preview_path TEXT,
+          work_dir TEXT,
           progress INTEGER DEFAULT 0,
+          stage VARCHAR(50),
+          stage_progress JSONB,
+          eta_seconds INTEGER,
+          started_at BIGINT,
+          webhook JSONB,
+          parent_id VARCHAR(255),
+          child_ids JSONB,
+          revision INTEGER,
+          render_restore JSONB,
+          last_render_error TEXT,
           error TEXT,
           stats JSONB,
           created_at BIGINT NOT NULL,
@@ -89,6 +384,23 @@ class PostgresDatabase implements DatabaseProvider {
         )
       `);
 
+      // Columns added after the initial schema
+      for (const column of [
+        'work_dir TEXT',
+        'stage VARCHAR(50)',
+        'stage_progress JSONB',
+        'eta_seconds INTEGER',
+        'started_at BIGINT',
+        'webhook JSONB',
+        'parent_id VARCHAR(255)',
+        'child_ids JSONB',
+        'revision INTEGER',
+        'render_restore JSONB',
+        'last_render_error TEXT',
+      ]) {
+        await this.pool.query(`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS ${column}`);
+      }
+
       // Create index for faster queries
       await this.pool.query(`
         CREATE INDEX IF NOT EXISTS idx_jobs_updated_at ON jobs(updated_at)
@@ -96,19 +408,100 @@ class PostgresDatabase implements DatabaseProvider {
       await this.pool.query(`
         CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)
       `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS translation_memory (
+          id VARCHAR(64) PRIMARY KEY,
+          source_text TEXT NOT NULL,
+          target_language VARCHAR(100) NOT NULL,
+          provider VARCHAR(100) NOT NULL,
+          model VARCHAR(255) NOT NULL,
+          prompt_version VARCHAR(50) NOT NULL,
+          translated_text TEXT NOT NULL,
+          override BOOLEAN NOT NULL DEFAULT FALSE,
+          hits INTEGER NOT NULL DEFAULT 0,
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL
+        )
+      `);
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_translation_memory_scope ON translation_memory(target_language, provider)
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS ocr_cache (
+          id VARCHAR(64) PRIMARY KEY,
+          video_hash VARCHAR(64) NOT NULL,
+          provider VARCHAR(100) NOT NULL,
+          provider_version VARCHAR(255) NOT NULL,
+          settings JSONB NOT NULL,
+          storage_key TEXT NOT NULL,
+          frames INTEGER NOT NULL,
+          size_bytes BIGINT NOT NULL,
+          hits INTEGER NOT NULL DEFAULT 0,
+          created_at BIGINT NOT NULL,
+          last_used_at BIGINT NOT NULL
+        )
+      `);
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_ocr_cache_video ON ocr_cache(video_hash)
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS glossaries (
+          id VARCHAR(255) PRIMARY KEY,
+          name TEXT NOT NULL,
+          terms JSONB NOT NULL,
+          do_not_translate JSONB NOT NULL,
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL
+        )
+      `);
     } catch (error) {
-      console.error('Failed to initialize PostgreSQL. Install pg package.');
+      console.error('Failed to initialize PostgreSQL.');
       throw error;
     }
   }
 
+  private toJob(row: any): Job {
+    return {
+      id: row.id,
+      status: row.status,
+      targetLanguage: row.target_language,
+      options: row.options,
+      videoPath: row.video_path ?? undefined,
+      outputPath: row.output_path ?? undefined,
+      previewPath: row.preview_path ?? undefined,
+      workDir: row.work_dir ?? undefined,
+      progress: row.progress,
+      stage: row.stage ?? undefined,
+      stageProgress: row.stage_progress ?? undefined,
+      etaSeconds: row.eta_seconds ?? undefined,
+      startedAt: row.started_at != null ? Number(row.started_at) : undefined,
+      webhook: row.webhook ?? undefined,
+      parentId: row.parent_id ?? undefined,
+      childIds: row.child_ids ?? undefined,
+      revision: row.revision ?? undefined,
+      renderRestore: row.render_restore ?? undefined,
+      lastRenderError: row.last_render_error ?? undefined,
+      error: row.error ?? undefined,
+      stats: row.stats ?? undefined,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+    };
+  }
+
   async saveJob(job: Job): Promise<void> {
+    await this.ready;
     await this.pool.query(
-      `INSERT INTO jobs (id, status, target_language, options, video_path, output_path, preview_path, progress, error, stats, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `INSERT INTO jobs (id, status, target_language, options, video_path, output_path, preview_path, work_dir, progress, error, stats, created_at, updated_at, stage, stage_progress, eta_seconds, started_at, webhook, parent_id, child_ids, revision, render_restore, last_render_error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
        ON CONFLICT (id) DO UPDATE SET
          status = $2, options = $4, video_path = $5, output_path = $6, preview_path = $7,
-         progress = $8, error = $9, stats = $10, updated_at = $12`,
+         work_dir = $8, progress = $9, error = $10, stats = $11, updated_at = $13,
+         stage = $14, stage_progress = $15, eta_seconds = $16, started_at = $17, webhook = $18,
+         parent_id = $19, child_ids = $20, revision = $21, render_restore = $22,
+         last_render_error = $23`,
       [
         job.id,
         job.status,
@@ -117,87 +510,280 @@ class PostgresDatabase implements DatabaseProvider {
         job.videoPath,
         job.outputPath,
         job.previewPath,
+        job.workDir,
         job.progress,
         job.error,
         JSON.stringify(job.stats),
         job.createdAt,
         job.updatedAt,
+        job.stage,
+        JSON.stringify(job.stageProgress),
+        job.etaSeconds,
+        job.startedAt,
+        JSON.stringify(job.webhook),
+        job.parentId,
+        JSON.stringify(job.childIds),
+        job.revision,
+        JSON.stringify(job.renderRestore),
+        job.lastRenderError,
       ]
     );
   }
 
   async getJob(id: string): Promise<Job | null> {
+    await this.ready;
     const result = await this.pool.query('SELECT * FROM jobs WHERE id = $1', [id]);
     if (result.rows.length === 0) return null;
+    return this.toJob(result.rows[0]);
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<void> {
+    await this.ready;
+    const { sql, params } = jobUpdateSql(id, updates, (n) => `$${n}`);
+    await this.pool.query(sql, params);
+  }
+
+  async getAllJobs(): Promise<Job[]> {
+    await this.ready;
+    const result = await this.pool.query('SELECT * FROM jobs ORDER BY created_at DESC');
+    return result.rows.map((row: any) => this.toJob(row));
+  }
+
+  async countJobs(): Promise<number> {
+    await this.ready;
+    const result = await this.pool.query('SELECT COUNT(*) AS count FROM jobs');
+    return Number(result.rows[0].count);
+  }
+
+  async getOldestJobs(statuses: JobStatus[], limit: number): Promise<Job[]> {
+    await this.ready;
+    const result = await this.pool.query(
+      'SELECT * FROM jobs WHERE status = ANY($1) ORDER BY updated_at ASC LIMIT $2',
+      [statuses, limit]
+    );
+    return result.rows.map((row: any) => this.toJob(row));
+  }
 
-    const row = result.rows[0];
+  async deleteJob(id: string): Promise<void> {
+    await this.ready;
+    await this.pool.query('DELETE FROM jobs WHERE id = $1', [id]);
+  }
+
+  async cleanup(olderThan: number, statuses?: JobStatus[]): Promise<Job[]> {
+    await this.ready;
+    const cutoff = Date.now() - olderThan;
+    const result = statuses
+      ? await this.pool.query(
+          'DELETE FROM jobs WHERE updated_at < $1 AND status = ANY($2) RETURNING *',
+          [cutoff, statuses]
+        )
+      : await this.pool.query('DELETE FROM jobs WHERE updated_at < $1 RETURNING *', [cutoff]);
+    return result.rows.map((row: any) => this.toJob(row));
+  }
+
+  private toTranslationEntry(row: any): TranslationMemoryEntry {
     return {
       id: row.id,
-      status: row.status,
+      sourceText: row.source_text,
       targetLanguage: row.target_language,
-      options: row.options,
-      videoPath: row.video_path,
-      outputPath: row.output_path,
-      previewPath: row.preview_path,
-      progress: row.progress,
-      error: row.error,
-      stats: row.stats,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      provider: row.provider,
+      model: row.model,
+      promptVersion: row.prompt_version,
+      translatedText: row.translated_text,
+      override: row.override,
+      hits: Number(row.hits),
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
     };
   }
 
-  async updateJob(id: string, updates: Partial<Job>): Promise<void> {
-    const job = await this.getJob(id);
-    if (!job) return;
+  async getTranslationMemory(ids: string[], countHits = false): Promise<TranslationMemoryEntry[]> {
+    await this.ready;
+    if (ids.length === 0) return [];
+    const result = countHits
+      ? await this.pool.query(
+          'UPDATE translation_memory SET hits = hits + 1 WHERE id = ANY($1) RETURNING *',
+          [ids]
+        )
+      : await this.pool.query('SELECT * FROM translation_memory WHERE id = ANY($1)', [ids]);
+    return result.rows.map((row: any) => this.toTranslationEntry(row));
+  }
+
+  async saveTranslationMemory(entries: TranslationMemoryEntry[]): Promise<void> {
+    await this.ready;
+    for (const entry of entries) {
+      await this.pool.query(
+        `INSERT INTO translation_memory (id, source_text, target_language, provider, model, prompt_version, translated_text, override, hits, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (id) DO UPDATE SET
+           translated_text = $7, override = $8, updated_at = $11
+         WHERE translation_memory.override = FALSE OR $8 = TRUE`,
+        [
+          entry.id,
+          entry.sourceText,
+          entry.targetLanguage,
+          entry.provider,
+          entry.model,
+          entry.promptVersion,
+          entry.translatedText,
+          entry.override,
+          entry.hits,
+          entry.createdAt,
+          entry.updatedAt,
+        ]
+      );
+    }
+  }
 
-    Object.assign(job, updates, { updatedAt: Date.now() });
-    await this.saveJob(job);
+  async listTranslationMemory(filter: TranslationMemoryFilter = {}): Promise<TranslationMemoryEntry[]> {
+    await this.ready;
+    const { where, params } = translationFilterSql(filter, (n) => `$${n}`, 'ILIKE');
+    const result = await this.pool.query(
+      `SELECT * FROM translation_memory${where} ORDER BY updated_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit ?? null, filter.offset ?? 0]
+    );
+    return result.rows.map((row: any) => this.toTranslationEntry(row));
   }
 
-  async getAllJobs(): Promise<Job[]> {
-    const result = await this.pool.query('SELECT * FROM jobs ORDER BY created_at DESC');
-    return result.rows.map((row: any) => ({
+  async deleteTranslationMemory(
+    filter: TranslationMemoryFilter & { id?: string } = {}
+  ): Promise<number> {
+    await this.ready;
+    const { where, params } = translationFilterSql(filter, (n) => `$${n}`, 'ILIKE');
+    const result = await this.pool.query(`DELETE FROM translation_memory${where}`, params);
+    return result.rowCount ?? 0;
+  }
+
+  private toOcrCacheEntry(row: any): OcrCacheEntry {
+    return {
       id: row.id,
-      status: row.status,
-      targetLanguage: row.target_language,
-      options: row.options,
-      videoPath: row.video_path,
-      outputPath: row.output_path,
-      previewPath: row.preview_path,
-      progress: row.progress,
-      error: row.error,
-      stats: row.stats,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+      videoHash: row.video_hash,
+      provider: row.provider,
+      providerVersion: row.provider_version,
+      settings: row.settings,
+      storageKey: row.storage_key,
+      frames: Number(row.frames),
+      sizeBytes: Number(row.size_bytes),
+      hits: Number(row.hits),
+      createdAt: Number(row.created_at),
+      lastUsedAt: Number(row.last_used_at),
+    };
   }
 
-  async deleteJob(id: string): Promise<void> {
-    await this.pool.query('DELETE FROM jobs WHERE id = $1', [id]);
+  async getOcrCacheEntry(id: string, countHit = false): Promise<OcrCacheEntry | null> {
+    await this.ready;
+    const result = countHit
+      ? await this.pool.query(
+          'UPDATE ocr_cache SET hits = hits + 1, last_used_at = $2 WHERE id = $1 RETURNING *',
+          [id, Date.now()]
+        )
+      : await this.pool.query('SELECT * FROM ocr_cache WHERE id = $1', [id]);
+    return result.rows.length ? this.toOcrCacheEntry(result.rows[0]) : null;
   }
 
-  async cleanup(olderThan: number): Promise<number> {
-    const cutoff = Date.now() - olderThan;
+  async saveOcrCacheEntry(entry: OcrCacheEntry): Promise<void> {
+    await this.ready;
+    await this.pool.query(
+      `INSERT INTO ocr_cache (id, video_hash, provider, provider_version, settings, storage_key, frames, size_bytes, hits, created_at, last_used_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (id) DO UPDATE SET
+         storage_key = $6, frames = $7, size_bytes = $8, last_used_at = $11`,
+      [
+        entry.id,
+        entry.videoHash,
+        entry.provider,
+        entry.providerVersion,
+        JSON.stringify(entry.settings),
+        entry.storageKey,
+        entry.frames,
+        entry.sizeBytes,
+        entry.hits,
+        entry.createdAt,
+        entry.lastUsedAt,
+      ]
+    );
+  }
+
+  async listOcrCache(filter: OcrCacheFilter = {}): Promise<OcrCacheEntry[]> {
+    await this.ready;
+    const { where, params } = ocrCacheFilterSql(filter, (n) => `$${n}`);
     const result = await this.pool.query(
-      'DELETE FROM jobs WHERE updated_at < $1 RETURNING id',
-      [cutoff]
+      `SELECT * FROM ocr_cache${where} ORDER BY last_used_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit ?? null, filter.offset ?? 0]
     );
-    return result.rowCount;
+    return result.rows.map((row: any) => this.toOcrCacheEntry(row));
+  }
+
+  async deleteOcrCache(filter: OcrCacheFilter & { id?: string } = {}): Promise<OcrCacheEntry[]> {
+    await this.ready;
+    const { where, params } = ocrCacheFilterSql(filter, (n) => `$${n}`);
+    const result = await this.pool.query(`DELETE FROM ocr_cache${where} RETURNING *`, params);
+    return result.rows.map((row: any) => this.toOcrCacheEntry(row));
+  }
+
+  private toGlossary(row: any): Glossary {
+    return {
+      id: row.id,
+      name: row.name,
+      terms: row.terms,
+      doNotTranslate: row.do_not_translate,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+    };
+  }
+
+  async saveGlossary(glossary: Glossary): Promise<void> {
+    await this.ready;
+    await this.pool.query(
+      `INSERT INTO glossaries (id, name, terms, do_not_translate, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         name = $2, terms = $3, do_not_translate = $4, updated_at = $6`,
+      [
+        glossary.id,
+        glossary.name,
+        JSON.stringify(glossary.terms),
+        JSON.stringify(glossary.doNotTranslate),
+        glossary.createdAt,
+        glossary.updatedAt,
+      ]
+    );
+  }
+
+  async getGlossary(id: string): Promise<Glossary | null> {
+    await this.ready;
+    const result = await this.pool.query('SELECT * FROM glossaries WHERE id = $1', [id]);
+    if (result.rows.length === 0) return null;
+    return this.toGlossary(result.rows[0]);
+  }
+
+  async getAllGlossaries(): Promise<Glossary[]> {
+    await this.ready;
+    const result = await this.pool.query('SELECT * FROM glossaries ORDER BY created_at DESC');
+    return result.rows.map((row: any) => this.toGlossary(row));
+  }
+
+  async deleteGlossary(id: string): Promise<boolean> {
+    await this.ready;
+    const result = await this.pool.query('DELETE FROM glossaries WHERE id = $1', [id]);
+    return result.rowCount > 0;
   }
 }
 
 // SQLite database (good for development/small deployments)
 class SQLiteDatabase implements DatabaseProvider {
   private db: any;
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.initializeDatabase();
+    this.ready = this.initializeDatabase();
+    // Reported by whoever awaits it (the server at startup), not as an unhandled rejection
+    this.ready.catch(() => {});
   }
 
   private async initializeDatabase() {
     try {
-      const sqlite3 = await import('better-sqlite3');
+      const sqlite3 = await import('better-sqlite3').catch(missingDriver('better-sqlite3'));
       const Database = sqlite3.default;
       this.db = new Database(process.env.SQLITE_PATH || './jobs.db');
 
@@ -210,7 +796,18 @@ class SQLiteDatabase implements DatabaseProvider {
           video_path TEXT,
           output_path TEXT,
           preview_path TEXT,
+          work_dir TEXT,
           progress INTEGER DEFAULT 0,
+          stage TEXT,
+          stage_progress TEXT,
+          eta_seconds INTEGER,
+          started_at INTEGER,
+          webhook TEXT,
+          parent_id TEXT,
+          child_ids TEXT,
+          revision INTEGER,
+          render_restore TEXT,
+          last_render_error TEXT,
           error TEXT,
           stats TEXT,
           created_at INTEGER NOT NULL,
@@ -218,18 +815,114 @@ class SQLiteDatabase implements DatabaseProvider {
         )
       `);
 
+      // Columns added after the initial schema
+      this.ensureColumn('work_dir', 'TEXT');
+      this.ensureColumn('stage', 'TEXT');
+      this.ensureColumn('stage_progress', 'TEXT');
+      this.ensureColumn('eta_seconds', 'INTEGER');
+      this.ensureColumn('started_at', 'INTEGER');
+      this.ensureColumn('webhook', 'TEXT');
+      this.ensureColumn('parent_id', 'TEXT');
+      this.ensureColumn('child_ids', 'TEXT');
+      this.ensureColumn('revision', 'INTEGER');
+      this.ensureColumn('render_restore', 'TEXT');
+      this.ensureColumn('last_render_error', 'TEXT');
+
       this.db.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_updated_at ON jobs(updated_at)`);
       this.db.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)`);
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS translation_memory (
+          id TEXT PRIMARY KEY,
+          source_text TEXT NOT NULL,
+          target_language TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_version TEXT NOT NULL,
+          translated_text TEXT NOT NULL,
+          override INTEGER NOT NULL DEFAULT 0,
+          hits INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      this.db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_translation_memory_scope ON translation_memory(target_language, provider)`
+      );
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS ocr_cache (
+          id TEXT PRIMARY KEY,
+          video_hash TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          provider_version TEXT NOT NULL,
+          settings TEXT NOT NULL,
+          storage_key TEXT NOT NULL,
+          frames INTEGER NOT NULL,
+          size_bytes INTEGER NOT NULL,
+          hits INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          last_used_at INTEGER NOT NULL
+        )
+      `);
+      this.db.exec(`CREATE INDEX IF NOT EXISTS idx_ocr_cache_video ON ocr_cache(video_hash)`);
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS glossaries (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          terms TEXT NOT NULL,
+          do_not_translate TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
     } catch (error) {
-      console.error('Failed to initialize SQLite. Install better-sqlite3 package.');
+      console.error('Failed to initialize SQLite.');
       throw error;
     }
   }
 
+  private ensureColumn(name: string, type: string) {
+    const columns = this.db.prepare('PRAGMA table_info(jobs)').all();
+    if (!columns.some((c: any) => c.name === name)) {
+      this.db.exec(`ALTER TABLE jobs ADD COLUMN ${name} ${type}`);
+    }
+  }
+
+  private toJob(row: any): Job {
+    return {
+      id: row.id,
+      status: row.status,
+      targetLanguage: row.target_language,
+      options: JSON.parse(row.options || '{}'),
+      videoPath: row.video_path ?? undefined,
+      outputPath: row.output_path ?? undefined,
+      previewPath: row.preview_path ?? undefined,
+      workDir: row.work_dir ?? undefined,
+      progress: row.progress,
+      stage: row.stage ?? undefined,
+      stageProgress: row.stage_progress ? JSON.parse(row.stage_progress) : undefined,
+      etaSeconds: row.eta_seconds ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      webhook: row.webhook ? JSON.parse(row.webhook) : undefined,
+      parentId: row.parent_id ?? undefined,
+      childIds: row.child_ids ? JSON.parse(row.child_ids) : undefined,
+      revision: row.revision ?? undefined,
+      renderRestore: row.render_restore ? JSON.parse(row.render_restore) : undefined,
+      lastRenderError: row.last_render_error ?? undefined,
+      error: row.error ?? undefined,
+      stats: JSON.parse(row.stats || '{}'),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
   async saveJob(job: Job): Promise<void> {
+    await this.ready;
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO jobs (id, status, target_language, options, video_path, output_path, preview_path, progress, error, stats, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO jobs (id, status, target_language, options, video_path, output_path, preview_path, work_dir, progress, error, stats, created_at, updated_at, stage, stage_progress, eta_seconds, started_at, webhook, parent_id, child_ids, revision, render_restore, last_render_error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -240,74 +933,291 @@ class SQLiteDatabase implements DatabaseProvider {
       job.videoPath,
       job.outputPath,
       job.previewPath,
+      job.workDir,
       job.progress,
       job.error,
       JSON.stringify(job.stats),
       job.createdAt,
-      job.updatedAt
+      job.updatedAt,
+      job.stage,
+      JSON.stringify(job.stageProgress),
+      job.etaSeconds,
+      job.startedAt,
+      JSON.stringify(job.webhook),
+      job.parentId,
+      JSON.stringify(job.childIds),
+      job.revision,
+      JSON.stringify(job.renderRestore),
+      job.lastRenderError
     );
   }
 
   async getJob(id: string): Promise<Job | null> {
+    await this.ready;
     const stmt = this.db.prepare('SELECT * FROM jobs WHERE id = ?');
     const row = stmt.get(id);
 
     if (!row) return null;
+    return this.toJob(row);
+  }
 
+  async updateJob(id: string, updates: Partial<Job>): Promise<void> {
+    await this.ready;
+    const { sql, params } = jobUpdateSql(id, updates, () => '?');
+    this.db.prepare(sql).run(...params);
+  }
+
+  async getAllJobs(): Promise<Job[]> {
+    await this.ready;
+    const stmt = this.db.prepare('SELECT * FROM jobs ORDER BY created_at DESC');
+    const rows = stmt.all();
+    return rows.map((row: any) => this.toJob(row));
+  }
+
+  async countJobs(): Promise<number> {
+    await this.ready;
+    return this.db.prepare('SELECT COUNT(*) AS count FROM jobs').get().count;
+  }
+
+  async getOldestJobs(statuses: JobStatus[], limit: number): Promise<Job[]> {
+    await this.ready;
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM jobs WHERE status IN (${statuses.map(() => '?').join(', ')}) ORDER BY updated_at ASC LIMIT ?`
+      )
+      .all(...statuses, limit);
+    return rows.map((row: any) => this.toJob(row));
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    await this.ready;
+    const stmt = this.db.prepare('DELETE FROM jobs WHERE id = ?');
+    stmt.run(id);
+  }
+
+  async cleanup(olderThan: number, statuses?: JobStatus[]): Promise<Job[]> {
+    await this.ready;
+    const cutoff = Date.now() - olderThan;
+    const statusClause = statuses
+      ? ` AND status IN (${statuses.map(() => '?').join(', ')})`
+      : '';
+    const params = [cutoff, ...(statuses || [])];
+    const removeAll = this.db.transaction(() => {
+      const rows = this.db
+        .prepare(`SELECT * FROM jobs WHERE updated_at < ?${statusClause}`)
+        .all(...params);
+      this.db.prepare(`DELETE FROM jobs WHERE updated_at < ?${statusClause}`).run(...params);
+      return rows;
+    });
+    return removeAll().map((row: any) => this.toJob(row));
+  }
+
+  private toTranslationEntry(row: any): TranslationMemoryEntry {
     return {
       id: row.id,
-      status: row.status,
+      sourceText: row.source_text,
       targetLanguage: row.target_language,
-      options: JSON.parse(row.options || '{}'),
-      videoPath: row.video_path,
-      outputPath: row.output_path,
-      previewPath: row.preview_path,
-      progress: row.progress,
-      error: row.error,
-      stats: JSON.parse(row.stats || '{}'),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      provider: row.provider,
+      model: row.model,
+      promptVersion: row.prompt_version,
+      translatedText: row.translated_text,
+      override: !!row.override,
+      hits: Number(row.hits),
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
     };
   }
 
-  async updateJob(id: string, updates: Partial<Job>): Promise<void> {
-    const job = await this.getJob(id);
-    if (!job) return;
+  // better-sqlite3 cannot bind booleans
+  private translationFilter(filter: TranslationMemoryFilter & { id?: string }) {
+    const { where, params } = translationFilterSql(filter, () => '?', 'LIKE');
+    return { where, params: params.map((p) => (typeof p === 'boolean' ? Number(p) : p)) };
+  }
 
-    Object.assign(job, updates, { updatedAt: Date.now() });
-    await this.saveJob(job);
+  async getTranslationMemory(ids: string[], countHits = false): Promise<TranslationMemoryEntry[]> {
+    await this.ready;
+    const rows: any[] = [];
+    // Stay well under SQLite's bound-parameter limit
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      const placeholders = chunk.map(() => '?').join(', ');
+      if (countHits) {
+        this.db
+          .prepare(`UPDATE translation_memory SET hits = hits + 1 WHERE id IN (${placeholders})`)
+          .run(...chunk);
+      }
+      rows.push(
+        ...this.db
+          .prepare(`SELECT * FROM translation_memory WHERE id IN (${placeholders})`)
+          .all(...chunk)
+      );
+    }
+    return rows.map((row: any) => this.toTranslationEntry(row));
   }
 
-  async getAllJobs(): Promise<Job[]> {
-    const stmt = this.db.prepare('SELECT * FROM jobs ORDER BY created_at DESC');
-    const rows = stmt.all();
+  async saveTranslationMemory(entries: TranslationMemoryEntry[]): Promise<void> {
+    await this.ready;
+    const stmt = this.db.prepare(`
+      INSERT INTO translation_memory (id, source_text, target_language, provider, model, prompt_version, translated_text, override, hits, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        translated_text = excluded.translated_text, override = excluded.override, updated_at = excluded.updated_at
+      WHERE translation_memory.override = 0 OR excluded.override = 1
+    `);
+    const saveAll = this.db.transaction(() => {
+      for (const entry of entries) {
+        stmt.run(
+          entry.id,
+          entry.sourceText,
+          entry.targetLanguage,
+          entry.provider,
+          entry.model,
+          entry.promptVersion,
+          entry.translatedText,
+          entry.override ? 1 : 0,
+          entry.hits,
+          entry.createdAt,
+          entry.updatedAt
+        );
+      }
+    });
+    saveAll();
+  }
+
+  async listTranslationMemory(filter: TranslationMemoryFilter = {}): Promise<TranslationMemoryEntry[]> {
+    await this.ready;
+    const { where, params } = this.translationFilter(filter);
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM translation_memory${where} ORDER BY updated_at DESC LIMIT ? OFFSET ?`
+      )
+      .all(...params, filter.limit ?? -1, filter.offset ?? 0);
+    return rows.map((row: any) => this.toTranslationEntry(row));
+  }
+
+  async deleteTranslationMemory(
+    filter: TranslationMemoryFilter & { id?: string } = {}
+  ): Promise<number> {
+    await this.ready;
+    const { where, params } = this.translationFilter(filter);
+    return this.db.prepare(`DELETE FROM translation_memory${where}`).run(...params).changes;
+  }
 
-    return rows.map((row: any) => ({
+  private toOcrCacheEntry(row: any): OcrCacheEntry {
+    return {
       id: row.id,
-      status: row.status,
-      targetLanguage: row.target_language,
-      options: JSON.parse(row.options || '{}'),
-      videoPath: row.video_path,
-      outputPath: row.output_path,
-      previewPath: row.preview_path,
-      progress: row.progress,
-      error: row.error,
-      stats: JSON.parse(row.stats || '{}'),
+      videoHash: row.video_hash,
+      provider: row.provider,
+      providerVersion: row.provider_version,
+      settings: JSON.parse(row.settings),
+      storageKey: row.storage_key,
+      frames: Number(row.frames),
+      sizeBytes: Number(row.size_bytes),
+      hits: Number(row.hits),
+      createdAt: Number(row.created_at),
+      lastUsedAt: Number(row.last_used_at),
+    };
+  }
+
+  async getOcrCacheEntry(id: string, countHit = false): Promise<OcrCacheEntry | null> {
+    await this.ready;
+    if (countHit) {
+      this.db
+        .prepare('UPDATE ocr_cache SET hits = hits + 1, last_used_at = ? WHERE id = ?')
+        .run(Date.now(), id);
+    }
+    const row = this.db.prepare('SELECT * FROM ocr_cache WHERE id = ?').get(id);
+    return row ? this.toOcrCacheEntry(row) : null;
+  }
+
+  async saveOcrCacheEntry(entry: OcrCacheEntry): Promise<void> {
+    await this.ready;
+    this.db
+      .prepare(
+        `INSERT INTO ocr_cache (id, video_hash, provider, provider_version, settings, storage_key, frames, size_bytes, hits, created_at, last_used_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           storage_key = excluded.storage_key, frames = excluded.frames,
+           size_bytes = excluded.size_bytes, last_used_at = excluded.last_used_at`
+      )
+      .run(
+        entry.id,
+        entry.videoHash,
+        entry.provider,
+        entry.providerVersion,
+        JSON.stringify(entry.settings),
+        entry.storageKey,
+        entry.frames,
+        entry.sizeBytes,
+        entry.hits,
+        entry.createdAt,
+        entry.lastUsedAt
+      );
+  }
+
+  async listOcrCache(filter: OcrCacheFilter = {}): Promise<OcrCacheEntry[]> {
+    await this.ready;
+    const { where, params } = ocrCacheFilterSql(filter, () => '?');
+    const rows = this.db
+      .prepare(`SELECT * FROM ocr_cache${where} ORDER BY last_used_at DESC LIMIT ? OFFSET ?`)
+      .all(...params, filter.limit ?? -1, filter.offset ?? 0);
+    return rows.map((row: any) => this.toOcrCacheEntry(row));
+  }
+
+  async deleteOcrCache(filter: OcrCacheFilter & { id?: string } = {}): Promise<OcrCacheEntry[]> {
+    await this.ready;
+    const { where, params } = ocrCacheFilterSql(filter, () => '?');
+    const removeAll = this.db.transaction(() => {
+      const rows = this.db.prepare(`SELECT * FROM ocr_cache${where}`).all(...params);
+      this.db.prepare(`DELETE FROM ocr_cache${where}`).run(...params);
+      return rows;
+    });
+    return removeAll().map((row: any) => this.toOcrCacheEntry(row));
+  }
+
+  private toGlossary(row: any): Glossary {
+    return {
+      id: row.id,
+      name: row.name,
+      terms: JSON.parse(row.terms),
+      doNotTranslate: JSON.parse(row.do_not_translate),
       createdAt: row.created_at,
       updatedAt: row.updated_at,
-    }));
+    };
   }
 
-  async deleteJob(id: string): Promise<void> {
-    const stmt = this.db.prepare('DELETE FROM jobs WHERE id = ?');
-    stmt.run(id);
+  async saveGlossary(glossary: Glossary): Promise<void> {
+    await this.ready;
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO glossaries (id, name, terms, do_not_translate, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        glossary.id,
+        glossary.name,
+        JSON.stringify(glossary.terms),
+        JSON.stringify(glossary.doNotTranslate),
+        glossary.createdAt,
+        glossary.updatedAt
+      );
   }
 
-  async cleanup(olderThan: number): Promise<number> {
-    const cutoff = Date.now() - olderThan;
-    const stmt = this.db.prepare('DELETE FROM jobs WHERE updated_at < ?');
-    const result = stmt.run(cutoff);
-    return result.changes;
+  async getGlossary(id: string): Promise<Glossary | null> {
+    await this.ready;
+    const row = this.db.prepare('SELECT * FROM glossaries WHERE id = ?').get(id);
+    return row ? this.toGlossary(row) : null;
+  }
+
+  async getAllGlossaries(): Promise<Glossary[]> {
+    await this.ready;
+    const rows = this.db.prepare('SELECT * FROM glossaries ORDER BY created_at DESC').all();
+    return rows.map((row: any) => this.toGlossary(row));
+  }
+
+  async deleteGlossary(id: string): Promise<boolean> {
+    await this.ready;
+    return this.db.prepare('DELETE FROM glossaries WHERE id = ?').run(id).changes > 0;
   }
 }
 
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { jobManager } from './jobManager.js';
+import type { Job } from './jobManager.js';
+import { jobQueue } from './jobQueue.js';
+import { renderLanguageAss } from './subtitleTranslator.js';
+import type { TranslateOptions, VideoAnalysis } from './subtitleTranslator.js';
+import type { ProgressUpdate } from './types.js';
+
+export type LanguageProgress = {
+  onProgress?: (index: number, update: ProgressUpdate) => void;
+  // Wait for the language's progress writes before its final status is set
+  flush?: (index: number) => Promise<void>;
+};
+
+/**
+ * Translate and render each language of a multi-language job in turn, from
+ * the analysis they share. A language that fails or is cancelled on its own
+ * is skipped; the signal of the whole job aborts them all and rethrows.
+ * Returns the output directories of the completed languages, in order.
+ */
+export async function renderChildLanguages(
+  analysis: VideoAnalysis,
+  children: Job[],
+  options: TranslateOptions | undefined,
+  signal: AbortSignal,
+  progress: LanguageProgress = {}
+): Promise<string[]> {
+  const completedDirs: string[] = [];
+
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    const latest = await jobManager.getJob(child.id);
+    if (!latest || latest.status === 'cancelled') continue;
+
+    const childStart = Date.now();
+    const outputDir = path.join(analysis.workDir, `lang_${i + 1}`);
+    // Cancelling just this language aborts its render, not the others
+    const childTask = jobQueue.subtask(child.id, signal);
+    try {
+      const result = await renderLanguageAss(analysis, child.targetLanguage, outputDir, options, {
+        signal: childTask.signal,
+        onProgress: (update) => progress.onProgress?.(i, update),
+      }).finally(() => progress.flush?.(i));
+
+      const after = await jobManager.getJob(child.id);
+      if (after?.status === 'cancelled') continue;
+
+      const processingTime = ((Date.now() - childStart) / 1000).toFixed(2) + 's';
+      await jobManager.setJobCompleted(child.id, result.outputPath, outputDir, {
+        ...result.stats,
+        processingTime,
+      });
+      completedDirs.push(outputDir);
+      console.log(`✅ Job ${child.id} (${child.targetLanguage}) completed`);
+    } catch (error) {
+      // Both signals fire when the whole job is cancelled; only the
+      // language's own fires when just this language is
+      if (signal.aborted) throw error;
+      if (childTask.signal.aborted) {
+        console.log(`🛑 Job ${child.id} (${child.targetLanguage}) cancelled`);
+        await fs.rm(outputDir, { recursive: true, force: true }).catch(() => {});
+        continue;
+      }
+      console.error(`❌ Job ${child.id} (${child.targetLanguage}) failed:`, error);
+      await jobManager.setJobFailed(child.id, (error as Error).message);
+    } finally {
+      childTask.release();
+    }
+  }
+
+  return completedDirs;
+}
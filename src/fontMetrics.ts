@@ -0,0 +1,491 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const execFileAsync = promisify(execFile);
+
+const DEBUG_COMPOSER = process.env.DEBUG_COMPOSER === '1';
+
+/**
+ * Glyph metrics read straight from a TrueType/OpenType file (.ttf, .otf or
+ * the first face of a .ttc): advances from hmtx, pair kerning from the GPOS
+ * 'kern' feature or the legacy kern table. Shaping that changes glyphs
+ * (ligatures, Arabic joining, Indic conjuncts) is not modelled, so those
+ * scripts measure their nominal glyphs.
+ */
+export class FontMetrics {
+  private kernCache = new Map<number, number>();
+
+  constructor(
+    private data: DataView,
+    private cmap: (codePoint: number) => number,
+    private advances: Uint16Array,
+    private height: number, // font units that libass maps to the font size
+    private kernLookups: number[], // GPOS PairPos subtable offsets, grouped per lookup
+    private lookupSizes: number[],
+    private legacyKern: Map<number, number> | null
+  ) {}
+
+  /**
+   * Width in pixels of one line at the given ASS font size. Characters the
+   * font has no glyph for are measured with the fallback, since libass
+   * renders them with another font.
+   */
+  measure(text: string, fontSize: number, fallback: (char: string) => number): number {
+    // libass sizes fonts like GDI: ascent + descent equals the font size
+    const scale = fontSize / this.height;
+    let units = 0;
+    let pixels = 0;
+    let prev = 0;
+    for (const char of text) {
+      if (/\p{Mn}/u.test(char)) continue; // combining marks take no space
+      const glyph = this.cmap(char.codePointAt(0)!);
+      if (glyph === 0) {
+        pixels += fallback(char);
+        prev = 0;
+        continue;
+      }
+      units += this.advance(glyph) + (prev ? this.kerning(prev, glyph) : 0);
+      prev = glyph;
+    }
+    return units * scale + pixels;
+  }
+
+  private advance(glyph: number): number {
+    return this.advances[Math.min(glyph, this.advances.length - 1)] ?? 0;
+  }
+
+  private kerning(left: number, right: number): number {
+    const key = left * 0x10000 + right;
+    let value = this.kernCache.get(key);
+    if (value === undefined) {
+      value = this.kernLookups.length > 0
+        ? this.gposKerning(left, right)
+        : this.legacyKern?.get(key) ?? 0;
+      this.kernCache.set(key, value);
+    }
+    return value;
+  }
+
+  // Each lookup applies once; within a lookup the first matching subtable wins
+  private gposKerning(left: number, right: number): number {
+    let total = 0;
+    let i = 0;
+    for (const size of this.lookupSizes) {
+      for (let j = i; j < i + size; j++) {
+        const adjust = pairAdjustment(this.data, this.kernLookups[j], left, right);
+        if (adjust !== null) {
+          total += adjust;
+          break;
+        }
+      }
+      i += size;
+    }
+    return total;
+  }
+}
+
+// ---- sfnt parsing ----
+
+function tag(data: DataView, offset: number): string {
+  return String.fromCharCode(
+    data.getUint8(offset),
+    data.getUint8(offset + 1),
+    data.getUint8(offset + 2),
+    data.getUint8(offset + 3)
+  );
+}
+
+function readTables(data: DataView): Map<string, number> {
+  let base = 0;
+  if (tag(data, 0) === 'ttcf') base = data.getUint32(12); // first face of a collection
+  const numTables = data.getUint16(base + 4);
+  const tables = new Map<string, number>();
+  for (let i = 0; i < numTables; i++) {
+    const record = base + 12 + i * 16;
+    tables.set(tag(data, record), data.getUint32(record + 8));
+  }
+  return tables;
+}
+
+function readCmap(data: DataView, cmapOffset: number): (codePoint: number) => number {
+  const count = data.getUint16(cmapOffset + 2);
+  let best: { offset: number; rank: number } | null = null;
+  for (let i = 0; i < count; i++) {
+    const record = cmapOffset + 4 + i * 8;
+    const platform = data.getUint16(record);
+    const encoding = data.getUint16(record + 2);
+    const offset = cmapOffset + data.getUint32(record + 4);
+    const format = data.getUint16(offset);
+    // Full Unicode (format 12) beats BMP-only (format 4)
+    const rank =
+      format === 12 && (platform === 3 || platform === 0) ? 2
+      : format === 4 && (platform === 0 || (platform === 3 && encoding === 1)) ? 1
+      : 0;
+    if (rank > 0 && (!best || rank > best.rank)) best = { offset, rank };
+  }
+  if (!best) throw new Error('No Unicode cmap');
+  const offset = best.offset;
+
+  if (data.getUint16(offset) === 12) {
+    const groups = data.getUint32(offset + 12);
+    return (cp) => {
+      let lo = 0;
+      let hi = groups - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const group = offset + 16 + mid * 12;
+        const start = data.getUint32(group);
+        if (cp < start) hi = mid - 1;
+        else if (cp > data.getUint32(group + 4)) lo = mid + 1;
+        else return data.getUint32(group + 8) + cp - start;
+      }
+      return 0;
+    };
+  }
+
+  const segCount = data.getUint16(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  return (cp) => {
+    if (cp > 0xffff) return 0;
+    for (let i = 0; i < segCount; i++) {
+      if (cp > data.getUint16(endCodes + i * 2)) continue;
+      const start = data.getUint16(startCodes + i * 2);
+      if (cp < start) return 0;
+      const delta = data.getUint16(idDeltas + i * 2);
+      const rangeOffset = data.getUint16(idRangeOffsets + i * 2);
+      if (rangeOffset === 0) return (cp + delta) & 0xffff;
+      const glyph = data.getUint16(idRangeOffsets + i * 2 + rangeOffset + (cp - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+}
+
+function readAdvances(data: DataView, tables: Map<string, number>): Uint16Array {
+  const hhea = tables.get('hhea');
+  const hmtx = tables.get('hmtx');
+  const maxp = tables.get('maxp');
+  if (hhea === undefined || hmtx === undefined || maxp === undefined) {
+    throw new Error('Missing hhea/hmtx/maxp');
+  }
+  const numMetrics = data.getUint16(hhea + 34);
+  const numGlyphs = data.getUint16(maxp + 4);
+  // Glyphs past numberOfHMetrics repeat the last advance
+  const advances = new Uint16Array(Math.max(numGlyphs, numMetrics));
+  for (let i = 0; i < advances.length; i++) {
+    advances[i] = data.getUint16(hmtx + Math.min(i, numMetrics - 1) * 4);
+  }
+  return advances;
+}
+
+// Same vertical metrics libass uses to turn \fs into a pixel scale
+function readHeight(data: DataView, tables: Map<string, number>): number {
+  const os2 = tables.get('OS/2');
+  if (os2 !== undefined) {
+    const winHeight = data.getInt16(os2 + 74) + data.getInt16(os2 + 76);
+    if (winHeight > 0) return winHeight;
+  }
+  const hhea = tables.get('hhea');
+  if (hhea !== undefined) {
+    const height = data.getInt16(hhea + 4) - data.getInt16(hhea + 6);
+    if (height > 0) return height;
+  }
+  return data.getUint16(tables.get('head')! + 18); // unitsPerEm
+}
+
+function coverageIndex(data: DataView, offset: number, glyph: number): number {
+  const format = data.getUint16(offset);
+  const count = data.getUint16(offset + 2);
+  if (format === 1) {
+    let lo = 0;
+    let hi = count - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const g = data.getUint16(offset + 4 + mid * 2);
+      if (glyph < g) hi = mid - 1;
+      else if (glyph > g) lo = mid + 1;
+      else return mid;
+    }
+    return -1;
+  }
+  for (let i = 0; i < count; i++) {
+    const range = offset + 4 + i * 6;
+    const start = data.getUint16(range);
+    if (glyph >= start && glyph <= data.getUint16(range + 2)) {
+      return data.getUint16(range + 4) + glyph - start;
+    }
+  }
+  return -1;
+}
+
+function glyphClass(data: DataView, offset: number, glyph: number): number {
+  const format = data.getUint16(offset);
+  if (format === 1) {
+    const start = data.getUint16(offset + 2);
+    const count = data.getUint16(offset + 4);
+    return glyph >= start && glyph < start + count
+      ? data.getUint16(offset + 6 + (glyph - start) * 2)
+      : 0;
+  }
+  const count = data.getUint16(offset + 2);
+  for (let i = 0; i < count; i++) {
+    const range = offset + 4 + i * 6;
+    if (glyph >= data.getUint16(range) && glyph <= data.getUint16(range + 2)) {
+      return data.getUint16(range + 4);
+    }
+  }
+  return 0;
+}
+
+function bitCount(n: number): number {
+  let count = 0;
+  for (; n; n &= n - 1) count++;
+  return count;
+}
+
+// Advance change from a ValueRecord: XAdvance follows XPlacement/YPlacement
+function xAdvance(data: DataView, record: number, format: number): number {
+  return format & 0x4 ? data.getInt16(record + bitCount(format & 0x3) * 2) : 0;
+}
+
+/** Advance adjustment of one PairPos subtable, or null if it doesn't cover the pair */
+function pairAdjustment(data: DataView, subtable: number, left: number, right: number): number | null {
+  const format = data.getUint16(subtable);
+  const coverage = coverageIndex(data, subtable + data.getUint16(subtable + 2), left);
+  if (coverage < 0) return null;
+  const format1 = data.getUint16(subtable + 4);
+  const format2 = data.getUint16(subtable + 6);
+  const size1 = bitCount(format1) * 2;
+  const size2 = bitCount(format2) * 2;
+
+  if (format === 1) {
+    const pairSet = subtable + data.getUint16(subtable + 10 + coverage * 2);
+    const count = data.getUint16(pairSet);
+    const recordSize = 2 + size1 + size2;
+    let lo = 0;
+    let hi = count - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const record = pairSet + 2 + mid * recordSize;
+      const second = data.getUint16(record);
+      if (right < second) hi = mid - 1;
+      else if (right > second) lo = mid + 1;
+      else return xAdvance(data, record + 2, format1) + xAdvance(data, record + 2 + size1, format2);
+    }
+    return null;
+  }
+
+  if (format === 2) {
+    const class1 = glyphClass(data, subtable + data.getUint16(subtable + 8), left);
+    const class2 = glyphClass(data, subtable + data.getUint16(subtable + 10), right);
+    const class2Count = data.getUint16(subtable + 14);
+    const record = subtable + 16 + (class1 * class2Count + class2) * (size1 + size2);
+    return xAdvance(data, record, format1) + xAdvance(data, record + size1, format2);
+  }
+  return null;
+}
+
+// PairPos subtables of every lookup the 'kern' feature uses, in lookup order
+function readGposKerning(data: DataView, gpos: number): { subtables: number[]; sizes: number[] } {
+  const featureList = gpos + data.getUint16(gpos + 6);
+  const lookupList = gpos + data.getUint16(gpos + 8);
+  const lookupIndices = new Set<number>();
+  const featureCount = data.getUint16(featureList);
+  for (let i = 0; i < featureCount; i++) {
+    const record = featureList + 2 + i * 6;
+    if (tag(data, record) !== 'kern') continue;
+    const feature = featureList + data.getUint16(record + 4);
+    const count = data.getUint16(feature + 2);
+    for (let j = 0; j < count; j++) lookupIndices.add(data.getUint16(feature + 4 + j * 2));
+  }
+
+  const subtables: number[] = [];
+  const sizes: number[] = [];
+  for (const index of [...lookupIndices].sort((a, b) => a - b)) {
+    const lookup = lookupList + data.getUint16(lookupList + 2 + index * 2);
+    const type = data.getUint16(lookup);
+    const count = data.getUint16(lookup + 4);
+    let added = 0;
+    for (let j = 0; j < count; j++) {
+      let subtable = lookup + data.getUint16(lookup + 6 + j * 2);
+      // Extension lookups (type 9) wrap the real subtable
+      if (type === 9) {
+        if (data.getUint16(subtable + 2) !== 2) continue;
+        subtable += data.getUint32(subtable + 4);
+      } else if (type !== 2) {
+        continue;
+      }
+      subtables.push(subtable);
+      added++;
+    }
+    if (added > 0) sizes.push(added);
+  }
+  return { subtables, sizes };
+}
+
+// Format 0 subtables of the legacy (version 0) kern table
+function readLegacyKern(data: DataView, kern: number): Map<number, number> {
+  const pairs = new Map<number, number>();
+  if (data.getUint16(kern) !== 0) return pairs;
+  const count = data.getUint16(kern + 2);
+  let subtable = kern + 4;
+  for (let i = 0; i < count; i++) {
+    const length = data.getUint16(subtable + 2);
+    const coverage = data.getUint16(subtable + 4);
+    // Horizontal kerning values (not minimum, not cross-stream), format 0
+    if ((coverage & 0x7) === 0x1 && coverage >> 8 === 0) {
+      const nPairs = data.getUint16(subtable + 6);
+      for (let j = 0; j < nPairs; j++) {
+        const pair = subtable + 14 + j * 6;
+        const key = data.getUint16(pair) * 0x10000 + data.getUint16(pair + 2);
+        pairs.set(key, (pairs.get(key) ?? 0) + data.getInt16(pair + 4));
+      }
+    }
+    subtable += length;
+  }
+  return pairs;
+}
+
+// Family names (legacy and typographic) from the name table
+function readFamilies(data: DataView, name: number): Set<string> {
+  const families = new Set<string>();
+  const count = data.getUint16(name + 2);
+  const strings = name + data.getUint16(name + 4);
+  for (let i = 0; i < count; i++) {
+    const record = name + 6 + i * 12;
+    const platform = data.getUint16(record);
+    const nameId = data.getUint16(record + 6);
+    if (nameId !== 1 && nameId !== 16) continue;
+    const length = data.getUint16(record + 8);
+    const start = strings + data.getUint16(record + 10);
+    let value = '';
+    if (platform === 0 || platform === 3) {
+      for (let j = 0; j + 1 < length; j += 2) value += String.fromCharCode(data.getUint16(start + j));
+    } else if (platform === 1) {
+      for (let j = 0; j < length; j++) value += String.fromCharCode(data.getUint8(start + j));
+    }
+    if (value) families.add(value.toLowerCase());
+  }
+  return families;
+}
+
+type FontFace = { file: string; families: Set<string>; bold: boolean };
+
+// Family and weight of one font file, or null if it isn't a readable font
+function readFontFace(file: string, buffer: Buffer): FontFace | null {
+  try {
+    const data = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const tables = readTables(data);
+    const name = tables.get('name');
+    if (name === undefined) return null;
+    const os2 = tables.get('OS/2');
+    // usWeightClass 600+ or the fsSelection BOLD bit
+    const bold =
+      os2 !== undefined && (data.getUint16(os2 + 4) >= 600 || (data.getUint16(os2 + 62) & 0x20) !== 0);
+    return { file, families: readFamilies(data, name), bold };
+  } catch {
+    return null;
+  }
+}
+
+export function parseFontMetrics(buffer: Buffer): FontMetrics {
+  const data = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const tables = readTables(data);
+  const cmap = tables.get('cmap');
+  if (cmap === undefined) throw new Error('Missing cmap');
+
+  const gpos = tables.get('GPOS');
+  const kerning = gpos !== undefined ? readGposKerning(data, gpos) : { subtables: [], sizes: [] };
+  const kern = tables.get('kern');
+  const legacyKern = kerning.subtables.length === 0 && kern !== undefined ? readLegacyKern(data, kern) : null;
+
+  return new FontMetrics(
+    data,
+    readCmap(data, cmap),
+    readAdvances(data, tables),
+    readHeight(data, tables),
+    kerning.subtables,
+    kerning.sizes,
+    legacyKern
+  );
+}
+
+const metricsCache = new Map<string, Promise<FontMetrics | null>>();
+
+/**
+ * Metrics for a font file, parsed once per process. Returns null when the
+ * file can't be read or parsed, so callers fall back to estimates.
+ */
+export function loadFontMetrics(fontPath: string): Promise<FontMetrics | null> {
+  let metrics = metricsCache.get(fontPath);
+  if (!metrics) {
+    metrics = fs
+      .readFile(fontPath)
+      .then(parseFontMetrics)
+      .catch((error) => {
+        console.warn(`   ⚠️  Could not read font metrics from ${fontPath}: ${error.message}`);
+        return null;
+      });
+    metricsCache.set(fontPath, metrics);
+  }
+  return metrics;
+}
+
+const systemFontCache = new Map<string, Promise<string | null>>();
+
+/**
+ * File fontconfig picks for a family, i.e. the file libass renders with.
+ * Null when fontconfig isn't installed.
+ */
+export function findSystemFont(family: string, bold = false): Promise<string | null> {
+  const pattern = `${family}${bold ? ':bold' : ''}`;
+  let file = systemFontCache.get(pattern);
+  if (!file) {
+    file = execFileAsync('fc-match', ['-f', '%{file}', pattern], { timeout: 5000 })
+      .then(({ stdout }) => stdout.trim() || null)
+      .catch((error) => {
+        if (DEBUG_COMPOSER) console.log(`   [debug] fc-match ${pattern} failed: ${error.message}`);
+        return null;
+      });
+    systemFontCache.set(pattern, file);
+  }
+  return file;
+}
+
+const fontDirCache = new Map<string, Promise<FontFace[]>>();
+
+/**
+ * Font file for a family in a directory of .ttf/.otf files, preferring the
+ * bold face when asked. Null when the directory has no such family.
+ */
+export async function findFontInDir(dir: string, family: string, bold = false): Promise<string | null> {
+  let faces = fontDirCache.get(dir);
+  if (!faces) {
+    faces = fs
+      .readdir(dir)
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((n) => /\.(ttf|otf|ttc)$/i.test(n))
+            .sort()
+            .map(async (n) => readFontFace(path.join(dir, n), await fs.readFile(path.join(dir, n))))
+        )
+      )
+      .then((all) => all.filter((face): face is FontFace => face !== null))
+      .catch((error) => {
+        console.warn(`   ⚠️  Could not read fonts in ${dir}: ${error.message}`);
+        return [];
+      });
+    fontDirCache.set(dir, faces);
+  }
+  const matches = (await faces).filter((face) => face.families.has(family.toLowerCase()));
+  return (matches.find((face) => face.bold === bold) ?? matches[0])?.file ?? null;
+}
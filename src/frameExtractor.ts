@@ -1,37 +1,301 @@
 import ffmpeg from 'fluent-ffmpeg';
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { FrameInfo } from './types.js';
+import os from 'os';
+import type { FrameInfo, TextRegion } from './types.js';
+import { cancelledError, killOnAbort } from './abort.js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// fixed: one frame per second. adaptive: frames where the text region
+// changes, at most SAMPLE_MAX_FPS, and at least every SAMPLE_MAX_INTERVAL
+// seconds during static stretches
+const FRAME_SAMPLING = (process.env.FRAME_SAMPLING || 'adaptive').toLowerCase();
+const SAMPLE_MAX_FPS = Math.max(1, Number(process.env.SAMPLE_MAX_FPS || 4));
+const SAMPLE_MAX_INTERVAL = Math.max(1 / SAMPLE_MAX_FPS, Number(process.env.SAMPLE_MAX_INTERVAL || 5));
+// Mean per-pixel difference (0-255) of the text region that counts as a change
+const SAMPLE_CHANGE_THRESHOLD = Number(process.env.SAMPLE_CHANGE_THRESHOLD || 6);
+
+// Change detection compares the text region as a small grayscale thumbnail
+const PROBE_W = 64;
+const PROBE_H = 32;
+
+/**
+ * Settings that change which frames are sampled, for cache keys
+ */
+export function samplingSettings(): Record<string, string | number> {
+  const settings: Record<string, string | number> = { sampling: FRAME_SAMPLING };
+  if (FRAME_SAMPLING !== 'fixed') {
+    settings.maxFps = SAMPLE_MAX_FPS;
+    settings.maxInterval = SAMPLE_MAX_INTERVAL;
+    settings.changeThreshold = SAMPLE_CHANGE_THRESHOLD;
+    settings.region = textRegionCrop();
+  }
+  return settings;
+}
 
 /**
- * Extract frames from video at 1 fps
+ * Run an ffmpeg command to completion, killing it if the job is cancelled
  */
-export async function extractFrames(videoPath: string, outputDir: string): Promise<FrameInfo[]> {
+function runCommand(
+  cmd: ffmpeg.FfmpegCommand,
+  signal?: AbortSignal,
+  onStderr?: (line: string) => void
+): Promise<void> {
   return new Promise((resolve, reject) => {
-    ffmpeg(videoPath)
-      .outputOptions(['-vf fps=1'])
-      .output(`${outputDir}/frame_%04d.png`)
-      .on('end', async () => {
-        try {
-          const files = await fs.readdir(outputDir);
-          const frameFiles: FrameInfo[] = files
-            .filter((f) => f.startsWith('frame_') && f.endsWith('.png'))
-            .sort()
-            .map((f, index) => ({
-              path: path.join(outputDir, f),
-              name: f,
-              frameNumber: index + 1,
-            }));
-          resolve(frameFiles);
-        } catch (error) {
-          reject(error);
-        }
+    if (signal?.aborted) return reject(cancelledError());
+    const detach = killOnAbort(cmd, signal);
+    if (onStderr) cmd.on('stderr', onStderr);
+    cmd
+      .on('end', () => {
+        detach();
+        resolve();
+      })
+      .on('error', (error) => {
+        detach();
+        reject(signal?.aborted ? cancelledError() : new Error(`FFmpeg error: ${error.message}`));
       })
-      .on('error', (error) => reject(new Error(`FFmpeg error: ${error.message}`)))
       .run();
   });
 }
 
+async function listFrames(outputDir: string): Promise<string[]> {
+  const files = await fs.readdir(outputDir);
+  return files.filter((f) => f.startsWith('frame_') && f.endsWith('.png')).sort();
+}
+
+// Crop to the band subtitles are expected in (SUBTITLE_REGION), so changes
+// elsewhere in the picture don't trigger extra samples
+function textRegionCrop(): string {
+  const region = (process.env.SUBTITLE_REGION || 'any').toLowerCase();
+  const frac = Math.min(1, Math.max(0.05, Number(process.env.SUBTITLE_REGION_FRACTION || 0.5)));
+  if (region === 'bottom') return `crop=iw:ih*${frac}:0:ih*${1 - frac},`;
+  if (region === 'top') return `crop=iw:ih*${frac}:0:0,`;
+  if (region === 'middle') return `crop=iw:ih*${frac}:0:ih*${(1 - frac) / 2},`;
+  return '';
+}
+
+function meanDifference(a: Buffer, b: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return a.length ? sum / a.length : 0;
+}
+
+/**
+ * Indexes of the candidate frames (SAMPLE_MAX_FPS grid) to keep: the first,
+ * any that differs enough from the last kept one, and one per
+ * SAMPLE_MAX_INTERVAL when nothing changes
+ */
+function pickChangedFrames(probes: Buffer): number[] {
+  const size = PROBE_W * PROBE_H;
+  const count = Math.floor(probes.length / size);
+  const maxGap = Math.round(SAMPLE_MAX_INTERVAL * SAMPLE_MAX_FPS);
+  const picked: number[] = [];
+  let last: Buffer | null = null;
+  for (let i = 0; i < count; i++) {
+    const probe = probes.subarray(i * size, (i + 1) * size);
+    const gap = picked.length ? i - picked[picked.length - 1] : Infinity;
+    if (!last || gap >= maxGap || meanDifference(probe, last) >= SAMPLE_CHANGE_THRESHOLD) {
+      picked.push(i);
+      last = probe;
+    }
+  }
+  return picked;
+}
+
+// ffmpeg select expression for a sorted list of frame indexes, with runs as ranges
+function selectExpression(indexes: number[]): string {
+  const terms: string[] = [];
+  for (let i = 0; i < indexes.length; i++) {
+    let j = i;
+    while (j + 1 < indexes.length && indexes[j + 1] === indexes[j] + 1) j++;
+    terms.push(j > i ? `between(n\\,${indexes[i]}\\,${indexes[j]})` : `eq(n\\,${indexes[i]})`);
+    i = j;
+  }
+  return terms.join('+');
+}
+
+async function extractFixedFrames(
+  videoPath: string,
+  outputDir: string,
+  signal?: AbortSignal
+): Promise<FrameInfo[]> {
+  await runCommand(
+    ffmpeg(videoPath).outputOptions(['-vf fps=1']).output(`${outputDir}/frame_%04d.png`),
+    signal
+  );
+  return (await listFrames(outputDir)).map((f, index) => ({
+    path: path.join(outputDir, f),
+    name: f,
+    frameNumber: index + 1,
+    timestamp: index,
+    duration: 1,
+  }));
+}
+
+/**
+ * Two passes: a cheap one that decodes the text region at SAMPLE_MAX_FPS as
+ * tiny thumbnails to find where it changes, then one that writes only the
+ * chosen frames, with their presentation times read back from showinfo.
+ */
+async function extractAdaptiveFrames(
+  videoPath: string,
+  outputDir: string,
+  signal?: AbortSignal
+): Promise<FrameInfo[]> {
+  const probePath = path.join(outputDir, 'probe.gray');
+  let picked: number[];
+  try {
+    await runCommand(
+      ffmpeg(videoPath)
+        .outputOptions([
+          '-vf', `fps=${SAMPLE_MAX_FPS},${textRegionCrop()}scale=${PROBE_W}:${PROBE_H}:flags=area`,
+          '-f', 'rawvideo',
+          '-pix_fmt', 'gray',
+        ])
+        .output(probePath),
+      signal
+    );
+    picked = pickChangedFrames(await fs.readFile(probePath));
+  } finally {
+    await fs.unlink(probePath).catch(() => {});
+  }
+  if (picked.length === 0) return [];
+
+  const times: number[] = [];
+  await runCommand(
+    ffmpeg(videoPath)
+      .outputOptions([
+        '-vf', `fps=${SAMPLE_MAX_FPS},select='${selectExpression(picked)}',showinfo`,
+        '-vsync', 'vfr',
+      ])
+      .output(`${outputDir}/frame_%04d.png`),
+    signal,
+    (line) => {
+      const m = /Parsed_showinfo.*\spts_time:\s*(-?[\d.]+)/.exec(line);
+      if (m) times.push(Number(m[1]));
+    }
+  );
+
+  const files = await listFrames(outputDir);
+  // Fall back to the fps grid if showinfo output couldn't be matched up
+  const timestamps =
+    times.length === files.length ? times : picked.map((i) => i / SAMPLE_MAX_FPS);
+  const videoDuration = await getVideoDuration(videoPath).catch(() => 0);
+  return files.map((f, index) => {
+    const timestamp = Math.round(timestamps[index] * 1000) / 1000;
+    const next = index + 1 < timestamps.length ? timestamps[index + 1] : videoDuration;
+    return {
+      path: path.join(outputDir, f),
+      name: f,
+      frameNumber: index + 1,
+      timestamp,
+      duration: Math.round(Math.max(1 / SAMPLE_MAX_FPS, next - timestamp) * 1000) / 1000,
+    };
+  });
+}
+
+/**
+ * Extract the frames to OCR, each with its presentation time. Sampling is
+ * adaptive by default; FRAME_SAMPLING=fixed keeps one frame per second.
+ */
+export async function extractFrames(
+  videoPath: string,
+  outputDir: string,
+  signal?: AbortSignal
+): Promise<FrameInfo[]> {
+  return FRAME_SAMPLING === 'fixed'
+    ? extractFixedFrames(videoPath, outputDir, signal)
+    : extractAdaptiveFrames(videoPath, outputDir, signal);
+}
+
+// Frame hashes are difference hashes over a HASH_SIZE x HASH_SIZE grid
+const HASH_SIZE = 16;
+
+/**
+ * Perceptual difference hash (dHash) of each frame image, in order: every
+ * bit says whether a cell of a small grayscale thumbnail is brighter than
+ * its right neighbour, so re-encoding noise barely moves it while new
+ * text does. With `subtitleRegion`, only the SUBTITLE_REGION band is hashed.
+ */
+export async function frameHashes(
+  frames: FrameInfo[],
+  options: { subtitleRegion?: boolean; signal?: AbortSignal } = {}
+): Promise<Buffer[]> {
+  if (frames.length === 0) return [];
+  const stamp = `${process.pid}_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+  const listPath = path.join(os.tmpdir(), `hash_${stamp}.txt`);
+  const rawPath = path.join(os.tmpdir(), `hash_${stamp}.gray`);
+  const crop = options.subtitleRegion ? textRegionCrop() : '';
+  try {
+    await fs.writeFile(
+      listPath,
+      'ffconcat version 1.0\n' +
+        frames.map((f) => `file '${path.resolve(f.path).replace(/'/g, "'\\''")}'\nduration 1\n`).join('')
+    );
+    await runCommand(
+      ffmpeg(listPath)
+        .inputOptions(['-f', 'concat', '-safe', '0'])
+        .outputOptions([
+          '-vf', `${crop}scale=${HASH_SIZE + 1}:${HASH_SIZE}:flags=area`,
+          '-vsync', 'passthrough',
+          '-f', 'rawvideo',
+          '-pix_fmt', 'gray',
+        ])
+        .output(rawPath),
+      options.signal
+    );
+    const pixels = await fs.readFile(rawPath);
+    const size = (HASH_SIZE + 1) * HASH_SIZE;
+    if (pixels.length < size * frames.length) {
+      throw new Error(`Expected ${frames.length} thumbnails, got ${Math.floor(pixels.length / size)}`);
+    }
+    return frames.map((_, index) => {
+      const hash = Buffer.alloc((HASH_SIZE * HASH_SIZE) / 8);
+      for (let row = 0; row < HASH_SIZE; row++) {
+        for (let col = 0; col < HASH_SIZE; col++) {
+          const i = index * size + row * (HASH_SIZE + 1) + col;
+          if (pixels[i] > pixels[i + 1]) {
+            const bit = row * HASH_SIZE + col;
+            hash[bit >> 3] |= 1 << (bit & 7);
+          }
+        }
+      }
+      return hash;
+    });
+  } finally {
+    await fs.unlink(listPath).catch(() => {});
+    await fs.unlink(rawPath).catch(() => {});
+  }
+}
+
+/**
+ * Number of differing bits between two frame hashes
+ */
+export function hashDistance(a: Buffer, b: Buffer): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let x = a[i] ^ b[i];
+    for (; x; x &= x - 1) distance++;
+  }
+  return distance;
+}
+
+/**
+ * Seconds a sampled frame stands for. Frames saved before sampling recorded
+ * timestamps fall back to their position on the fixed fps grid.
+ */
+export function sampleSpan(
+  frame: { frameNumber: number; timestamp?: number; duration?: number },
+  fps = 1
+): { start: number; end: number } {
+  if (typeof frame.timestamp === 'number' && typeof frame.duration === 'number') {
+    return { start: frame.timestamp, end: frame.timestamp + frame.duration };
+  }
+  return { start: (frame.frameNumber - 1) / fps, end: frame.frameNumber / fps };
+}
+
 /**
  * Get video duration in seconds
  */
@@ -43,3 +307,45 @@ export async function getVideoDuration(videoPath: string): Promise<number> {
     });
   });
 }
+
+/**
+ * Raw pixels of one moment of the video: the region (or the whole frame)
+ * scaled down to width x height, as 3-byte RGB or 1-byte gray per pixel.
+ * Seeking is frame-accurate, so this can probe between the sampled frames.
+ */
+export async function extractRegionPixels(
+  videoPath: string,
+  time: number,
+  region: TextRegion | null,
+  width: number,
+  height: number,
+  pixelFormat: 'rgb24' | 'gray' = 'rgb24'
+): Promise<Buffer> {
+  const rawPath = path.join(
+    os.tmpdir(),
+    `region_${process.pid}_${Date.now()}_${Math.random().toString(36).slice(2)}.raw`
+  );
+  const crop = region ? `crop=${region.width}:${region.height}:${region.x}:${region.y},` : '';
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(videoPath)
+        .seekInput(Math.max(0, time))
+        .outputOptions([
+          '-frames:v', '1',
+          '-vf', `${crop}scale=${width}:${height}:flags=area`,
+          '-f', 'rawvideo',
+          '-pix_fmt', pixelFormat,
+        ])
+        .output(rawPath)
+        .on('end', () => resolve())
+        .on('error', (error) => reject(new Error(`FFmpeg error: ${error.message}`)))
+        .run();
+    });
+    const pixels = await fs.readFile(rawPath);
+    const expected = width * height * (pixelFormat === 'rgb24' ? 3 : 1);
+    if (pixels.length < expected) throw new Error(`No frame at ${time.toFixed(2)}s`);
+    return pixels;
+  } finally {
+    await fs.unlink(rawPath).catch(() => {});
+  }
+}
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { database } from './database.js';
+import { findLanguage } from './languages.js';
+
+/**
+ * A customer glossary: preferred translations per target language plus
+ * terms (brand and product names) that must never be translated.
+ */
+export interface Glossary {
+  id: string;
+  name: string;
+  terms: Record<string, Record<string, string>>; // language code -> source -> target
+  doNotTranslate: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// The part of a glossary that applies to one target language
+export interface GlossaryTerms {
+  id: string;
+  terms: Record<string, string>;
+  doNotTranslate: string[];
+}
+
+// Glossaries are keyed by language code so "Chinese", "zh" and "zh-CN" share terms
+export function glossaryLanguageKey(language: string): string {
+  return findLanguage(language)?.code ?? language.trim().toLowerCase();
+}
+
+function isTerm(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && !/[\t\r\n]/.test(value);
+}
+
+/**
+ * Check a glossary request body and return a new glossary.
+ * Throws with a message suitable for a 400 response.
+ */
+export function createGlossary(input: any): Glossary {
+  if (!input || typeof input !== 'object') throw new Error('Glossary body must be an object');
+
+  const terms: Glossary['terms'] = {};
+  const rawTerms = input.terms ?? {};
+  if (typeof rawTerms !== 'object' || Array.isArray(rawTerms)) {
+    throw new Error('terms must be an object of { "<language>": { "<source>": "<target>" } }');
+  }
+  for (const [language, pairs] of Object.entries(rawTerms)) {
+    if (!pairs || typeof pairs !== 'object' || Array.isArray(pairs)) {
+      throw new Error(`terms.${language} must be an object of source -> target`);
+    }
+    const key = glossaryLanguageKey(language);
+    for (const [source, target] of Object.entries(pairs as Record<string, unknown>)) {
+      if (!isTerm(source) || !isTerm(target)) {
+        throw new Error(`terms.${language}: terms must be non-empty single-line strings`);
+      }
+      (terms[key] ??= {})[source.trim()] = target.trim();
+    }
+  }
+
+  const doNotTranslate = input.doNotTranslate ?? [];
+  if (!Array.isArray(doNotTranslate) || !doNotTranslate.every(isTerm)) {
+    throw new Error('doNotTranslate must be an array of non-empty single-line strings');
+  }
+
+  if (Object.keys(terms).length === 0 && doNotTranslate.length === 0) {
+    throw new Error('Glossary needs at least one term or doNotTranslate entry');
+  }
+
+  const now = Date.now();
+  return {
+    id: `gls_${now}_${Math.random().toString(36).substr(2, 9)}`,
+    name: typeof input.name === 'string' && input.name.trim() ? input.name.trim() : 'Untitled',
+    terms,
+    doNotTranslate: [...new Set(doNotTranslate.map((t: string) => t.trim()))],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function glossaryTermsFor(glossary: Glossary, targetLanguage: string): GlossaryTerms {
+  return {
+    id: glossary.id,
+    terms: glossary.terms[glossaryLanguageKey(targetLanguage)] ?? {},
+    doNotTranslate: glossary.doNotTranslate,
+  };
+}
+
+/**
+ * The glossary terms a job uses for its target language, or undefined when
+ * the job has no glossary. Jobs carry the copy of their glossary taken at
+ * upload; otherwise the glossary is looked up, and throws if it is gone.
+ */
+export async function loadGlossaryTerms(
+  options: { glossaryId?: string; glossary?: Glossary } | undefined,
+  targetLanguage: string
+): Promise<GlossaryTerms | undefined> {
+  if (options?.glossary) return glossaryTermsFor(options.glossary, targetLanguage);
+  if (!options?.glossaryId) return undefined;
+  const glossary = await database.getGlossary(options.glossaryId);
+  if (!glossary) throw new Error(`Glossary ${options.glossaryId} not found`);
+  return glossaryTermsFor(glossary, targetLanguage);
+}
+
+export function hasGlossaryTerms(glossary?: GlossaryTerms): glossary is GlossaryTerms {
+  return !!glossary && (Object.keys(glossary.terms).length > 0 || glossary.doNotTranslate.length > 0);
+}
+
+// Stable short hash of the terms, so cached translations follow glossary changes
+export function glossaryFingerprint(glossary: GlossaryTerms): string {
+  const terms = Object.keys(glossary.terms)
+    .sort()
+    .map((source) => [source, glossary.terms[source]]);
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([terms, [...glossary.doNotTranslate].sort()]))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match for alphabetic scripts; CJK has no word boundaries
+function containsTerm(text: string, term: string): boolean {
+  if (/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/.test(term)) return text.includes(term);
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Glossary rules a translated line breaks: a term in the source whose
+ * preferred translation is missing, or a do-not-translate term that was
+ * translated anyway.
+ */
+export function findGlossaryViolations(
+  sourceText: string,
+  translatedText: string,
+  glossary: GlossaryTerms
+): string[] {
+  const violations: string[] = [];
+  for (const [source, target] of Object.entries(glossary.terms)) {
+    const kept = translatedText.toLowerCase().includes(target.toLowerCase());
+    if (containsTerm(sourceText, source) && !kept) {
+      violations.push(`"${source}" should be translated as "${target}"`);
+    }
+  }
+  for (const term of glossary.doNotTranslate) {
+    if (containsTerm(sourceText, term) && !translatedText.includes(term)) {
+      violations.push(`"${term}" must not be translated`);
+    }
+  }
+  return violations;
+}
@@ -1,6 +1,7 @@
 import { serve } from "@hono/node-server";
 import dotenv from "dotenv";
 import app from "./app.js";
+import { database } from "./database.js";
 
 dotenv.config();
 
@@ -15,6 +16,14 @@ console.log(`   - Preview generation`);
 console.log(`   - File download`);
 console.log("");
 
+// Fail now, not on the first request, when the database can't be used
+try {
+  await database.ready;
+} catch (error) {
+  console.error(`❌ Database unavailable: ${(error as Error).message}`);
+  process.exit(1);
+}
+
 serve(
   {
     fetch: app.fetch,
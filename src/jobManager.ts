@@ -1,7 +1,25 @@
 import fs from 'fs/promises';
-import path from 'path';
+import { EventEmitter } from 'events';
+import { database } from './database.js';
+import type { PipelineStage, ProgressUpdate } from './types.js';
 
-export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface WebhookAttempt {
+  at: number;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  url: string;
+  status: 'pending' | 'retrying' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+}
 
 export interface Job {
   id: string;
@@ -11,137 +29,225 @@ export interface Job {
   videoPath?: string;
   outputPath?: string;
   previewPath?: string;
+  workDir?: string;
   progress: number; // 0-100
+  stage?: PipelineStage; // current pipeline stage while processing
+  stageProgress?: { current: number; total: number }; // e.g. OCR frame N of M
+  etaSeconds?: number; // estimated seconds remaining
+  startedAt?: number; // when processing began
+  webhook?: WebhookDelivery; // callback notified when the job completes or fails
+  parentId?: string; // set on per-language jobs of a multi-language upload
+  childIds?: string[]; // set on the parent of a multi-language upload
+  revision?: number; // output revision, bumped by each re-render
+  renderRestore?: RenderRestore; // set while a re-render is queued or running
+  lastRenderError?: string; // why the last re-render failed (the previous output was kept)
   error?: string;
   createdAt: number;
   updatedAt: number;
   stats?: {
     framesProcessed?: number;
+    ocrCallsSaved?: number; // frames that reused a similar frame's OCR results
+    ocrFailedFrames?: number; // frames with no OCR results after retries
+    ocrCached?: boolean; // extraction and OCR came from the OCR cache
+    warnings?: string[]; // problems that didn't fail the job
     textsDetected?: number;
     translationsApplied?: number;
+    glossaryViolations?: number; // translated lines that break the job's glossary
+    sourceLanguage?: string; // ISO 639-1 code, given or detected
     processingTime?: string;
   };
 }
 
+// What a job looked like before a re-render, put back if the re-render is
+// cancelled or fails: its previous output stays valid and downloadable
+export type RenderRestore = Pick<
+  Job,
+  | 'status'
+  | 'progress'
+  | 'error'
+  | 'options'
+  | 'outputPath'
+  | 'revision'
+  | 'stage'
+  | 'stageProgress'
+  | 'etaSeconds'
+  | 'startedAt'
+>;
+
 class JobManager {
-  private jobs: Map<string, Job> = new Map();
-  private maxJobs = 1000; // Limit memory usage
+  private maxJobs = 1000; // Limit stored jobs
   private jobTTL = 3600000; // 1 hour in milliseconds
+  // Local change notifications, keyed by job id (used by live event streams)
+  private changes = new EventEmitter();
 
   constructor() {
-    // Clean up old jobs every 10 minutes
-    setInterval(() => this.cleanupOldJobs(), 600000);
+    this.changes.setMaxListeners(0);
+
+    // Clean up old jobs every 10 minutes (without keeping the process alive)
+    setInterval(() => {
+      this.cleanupOldJobs().catch((error) =>
+        console.error('Job cleanup failed:', (error as Error).message)
+      );
+    }, 600000).unref();
   }
 
-  createJob(targetLanguage: string, options?: any): Job {
+  async createJob(
+    targetLanguage: string,
+    options?: any,
+    extra: { callbackUrl?: string; parentId?: string } = {}
+  ): Promise<Job> {
     const id = this.generateJobId();
+    const { callbackUrl, parentId } = extra;
     const job: Job = {
       id,
       status: 'queued',
       targetLanguage,
       options,
+      webhook: callbackUrl ? { url: callbackUrl, status: 'pending', attempts: [] } : undefined,
+      parentId,
       progress: 0,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    this.jobs.set(id, job);
-    this.enforceMaxJobs();
+    await database.saveJob(job);
+    await this.enforceMaxJobs();
     return job;
   }
 
-  getJob(id: string): Job | undefined {
-    return this.jobs.get(id);
+  async getJob(id: string): Promise<Job | undefined> {
+    return (await database.getJob(id)) ?? undefined;
   }
 
-  updateJob(id: string, updates: Partial<Job>): void {
-    const job = this.jobs.get(id);
-    if (job) {
-      Object.assign(job, updates, { updatedAt: Date.now() });
-      this.jobs.set(id, job);
-    }
+  async updateJob(id: string, updates: Partial<Job>): Promise<void> {
+    const change = { ...updates, updatedAt: Date.now() };
+    await database.updateJob(id, change);
+    this.changes.emit(id, change);
+  }
+
+  /**
+   * Subscribe to updates made to a job by this instance.
+   * Returns an unsubscribe function.
+   */
+  onJobUpdate(id: string, listener: (updates: Partial<Job>) => void): () => void {
+    this.changes.on(id, listener);
+    return () => {
+      this.changes.off(id, listener);
+    };
   }
 
-  setJobProcessing(id: string): void {
-    this.updateJob(id, { status: 'processing', progress: 10 });
+  async setJobProcessing(id: string): Promise<void> {
+    await this.updateJob(id, {
+      status: 'processing',
+      progress: 0,
+      stage: 'extracting',
+      startedAt: Date.now(),
+    });
   }
 
-  setJobCompleted(id: string, outputPath: string, previewPath?: string, stats?: any): void {
-    this.updateJob(id, {
+  async setJobCompleted(id: string, outputPath: string | undefined, workDir?: string, stats?: any): Promise<void> {
+    await this.updateJob(id, {
       status: 'completed',
       progress: 100,
+      stage: undefined,
+      stageProgress: undefined,
+      etaSeconds: 0,
       outputPath,
-      previewPath,
+      workDir,
       stats,
     });
   }
 
-  setJobFailed(id: string, error: string): void {
-    this.updateJob(id, {
+  async setJobFailed(id: string, error: string): Promise<void> {
+    await this.updateJob(id, {
       status: 'failed',
       progress: 0,
       error,
     });
   }
 
-  updateProgress(id: string, progress: number): void {
-    this.updateJob(id, { progress: Math.min(100, Math.max(0, progress)) });
+  async setJobCancelled(id: string): Promise<void> {
+    await this.updateJob(id, {
+      status: 'cancelled',
+      error: 'Cancelled by user',
+    });
+  }
+
+  isFinished(job: Pick<Job, 'status'>): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+  }
+
+  async updateProgress(id: string, progress: number): Promise<void> {
+    await this.updateJob(id, { progress: Math.min(100, Math.max(0, progress)) });
+  }
+
+  /**
+   * Record a pipeline progress report and derive an ETA from the elapsed time
+   */
+  async updateStage(id: string, update: ProgressUpdate, startedAt: number): Promise<void> {
+    const progress = Math.min(100, Math.max(0, update.progress));
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const etaSeconds =
+      progress > 0 ? Math.round((elapsed * (100 - progress)) / progress) : undefined;
+    await this.updateJob(id, {
+      progress,
+      stage: update.stage,
+      stageProgress:
+        update.total !== undefined
+          ? { current: update.current ?? 0, total: update.total }
+          : undefined,
+      etaSeconds,
+    });
   }
 
   private generateJobId(): string {
     return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private cleanupOldJobs(): void {
-    const now = Date.now();
-    for (const [id, job] of this.jobs.entries()) {
-      if (now - job.updatedAt > this.jobTTL) {
-        // Clean up files if they exist
-        if (job.outputPath) {
-          fs.unlink(job.outputPath).catch(() => {});
-        }
-        if (job.previewPath) {
-          fs.unlink(job.previewPath).catch(() => {});
-        }
-        if (job.videoPath) {
-          fs.unlink(job.videoPath).catch(() => {});
-        }
-        this.jobs.delete(id);
-      }
+  private async removeJobFiles(job: Job): Promise<void> {
+    if (job.outputPath) await fs.unlink(job.outputPath).catch(() => {});
+    if (job.previewPath) await fs.unlink(job.previewPath).catch(() => {});
+    if (job.videoPath) await fs.unlink(job.videoPath).catch(() => {});
+    if (job.workDir) await fs.rm(job.workDir, { recursive: true, force: true }).catch(() => {});
+  }
+
+  // Queued and running jobs are never expired, however long they take
+  private async cleanupOldJobs(): Promise<void> {
+    const removed = await database.cleanup(this.jobTTL, FINISHED_STATUSES);
+    for (const job of removed) {
+      await this.removeJobFiles(job);
     }
   }
 
-  private enforceMaxJobs(): void {
-    if (this.jobs.size > this.maxJobs) {
-      // Remove oldest completed or failed jobs first
-      const sortedJobs = Array.from(this.jobs.entries())
-        .filter(([, job]) => job.status === 'completed' || job.status === 'failed')
-        .sort((a, b) => a[1].updatedAt - b[1].updatedAt);
-
-      const toRemove = this.jobs.size - this.maxJobs;
-      for (let i = 0; i < toRemove && i < sortedJobs.length; i++) {
-        const [id, job] = sortedJobs[i];
-        // Clean up files
-        if (job.outputPath) fs.unlink(job.outputPath).catch(() => {});
-        if (job.previewPath) fs.unlink(job.previewPath).catch(() => {});
-        if (job.videoPath) fs.unlink(job.videoPath).catch(() => {});
-        this.jobs.delete(id);
-      }
+  private async enforceMaxJobs(): Promise<void> {
+    const total = await database.countJobs();
+    if (total <= this.maxJobs) return;
+
+    // Remove oldest finished jobs first
+    const evicted = await database.getOldestJobs(FINISHED_STATUSES, total - this.maxJobs);
+    if (evicted.length === 0) return;
+
+    // Everything finished at or before the newest job we need to evict goes
+    const newestEvicted = evicted[evicted.length - 1].updatedAt;
+    const removed = await database.cleanup(Date.now() - newestEvicted - 1, FINISHED_STATUSES);
+    for (const job of removed) {
+      await this.removeJobFiles(job);
     }
   }
 
-  getAllJobs(): Job[] {
-    return Array.from(this.jobs.values());
+  async getAllJobs(): Promise<Job[]> {
+    return database.getAllJobs();
   }
 
-  getJobStats() {
-    const jobs = this.getAllJobs();
+  async getJobStats() {
+    const jobs = await this.getAllJobs();
     return {
       total: jobs.length,
       queued: jobs.filter(j => j.status === 'queued').length,
       processing: jobs.filter(j => j.status === 'processing').length,
       completed: jobs.filter(j => j.status === 'completed').length,
       failed: jobs.filter(j => j.status === 'failed').length,
+      cancelled: jobs.filter(j => j.status === 'cancelled').length,
     };
   }
 }
@@ -0,0 +1,120 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Positive integer from the environment, or the default when unset or not a number
+function envCount(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) ? Math.max(1, value) : fallback;
+}
+
+// Number of jobs allowed to run at once (each one runs ffmpeg, OCR and an encode)
+const MAX_CONCURRENT_JOBS = envCount('MAX_CONCURRENT_JOBS', 2);
+// Maximum number of jobs waiting for a slot before uploads are rejected
+const MAX_QUEUED_JOBS = envCount('MAX_QUEUED_JOBS', 100);
+
+interface QueuedTask {
+  jobId: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+class JobQueue {
+  private pending: QueuedTask[] = [];
+  private running: Map<string, AbortController> = new Map();
+  // Work running inside another job's slot, e.g. one language of a multi-language job
+  private subtasks: Map<string, AbortController> = new Map();
+
+  constructor(
+    private concurrency: number,
+    private maxQueued: number
+  ) {}
+
+  /**
+   * Add a job to the queue. It starts as soon as a worker slot is free.
+   * Returns the 1-based queue position, or 0 if it started immediately.
+   */
+  enqueue(jobId: string, run: (signal: AbortSignal) => Promise<void>): number {
+    this.pending.push({ jobId, run });
+    this.drain();
+    return this.getPosition(jobId) ?? 0;
+  }
+
+  isFull(): boolean {
+    return this.pending.length >= this.maxQueued;
+  }
+
+  /**
+   * 1-based position among waiting jobs, 0 if running, null if unknown to this instance
+   */
+  getPosition(jobId: string): number | null {
+    if (this.running.has(jobId)) return 0;
+    const idx = this.pending.findIndex((t) => t.jobId === jobId);
+    return idx === -1 ? null : idx + 1;
+  }
+
+  /**
+   * Drop a waiting job or abort a running one.
+   * Returns where the job was found, or null if this instance does not own it.
+   */
+  cancel(jobId: string): 'queued' | 'running' | null {
+    const idx = this.pending.findIndex((t) => t.jobId === jobId);
+    if (idx !== -1) {
+      this.pending.splice(idx, 1);
+      return 'queued';
+    }
+    const controller = this.running.get(jobId) ?? this.subtasks.get(jobId);
+    if (controller) {
+      controller.abort();
+      return 'running';
+    }
+    return null;
+  }
+
+  /**
+   * Abort signal for a job processed inside another job's slot. It fires
+   * when the slot's job is aborted, or when `cancel(jobId)` is called for
+   * this job alone. Call `release` once the work has settled.
+   */
+  subtask(jobId: string, parent: AbortSignal): { signal: AbortSignal; release: () => void } {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (parent.aborted) onAbort();
+    else parent.addEventListener('abort', onAbort, { once: true });
+    this.subtasks.set(jobId, controller);
+    return {
+      signal: controller.signal,
+      release: () => {
+        parent.removeEventListener('abort', onAbort);
+        if (this.subtasks.get(jobId) === controller) this.subtasks.delete(jobId);
+      },
+    };
+  }
+
+  getStats() {
+    return {
+      concurrency: this.concurrency,
+      running: this.running.size,
+      queued: this.pending.length,
+      maxQueued: this.maxQueued,
+    };
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(task.jobId, controller);
+      task
+        .run(controller.signal)
+        .catch((error) => {
+          console.error(`Job ${task.jobId} failed:`, (error as Error).message);
+        })
+        .finally(() => {
+          this.running.delete(task.jobId);
+          this.drain();
+        });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue(MAX_CONCURRENT_JOBS, MAX_QUEUED_JOBS);
@@ -0,0 +1,225 @@
+/**
+ * Known languages, so free-form targetLanguage values ("Chinese", "zh-CN",
+ * "español") can be turned into standard codes.
+ */
+export interface LanguageInfo {
+  name: string;
+  code: string; // ISO 639-1
+  iso639_2: string; // ISO 639-2/T (MP4 track metadata)
+  iso639_2b?: string; // ISO 639-2/B where it differs (Matroska track metadata)
+  aliases?: string[]; // native names and common variants
+  scripts?: Script[]; // writing systems used (default: latin)
+  tesseract?: string; // Tesseract traineddata name where it differs from iso639_2
+}
+
+export type Script =
+  | 'latin'
+  | 'cyrillic'
+  | 'greek'
+  | 'arabic'
+  | 'hebrew'
+  | 'han'
+  | 'kana'
+  | 'hangul'
+  | 'thai'
+  | 'devanagari';
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  latin: /\p{Script=Latin}/gu,
+  cyrillic: /\p{Script=Cyrillic}/gu,
+  greek: /\p{Script=Greek}/gu,
+  arabic: /\p{Script=Arabic}/gu,
+  hebrew: /\p{Script=Hebrew}/gu,
+  han: /\p{Script=Han}/gu,
+  kana: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu,
+  hangul: /\p{Script=Hangul}/gu,
+  thai: /\p{Script=Thai}/gu,
+  devanagari: /\p{Script=Devanagari}/gu,
+};
+
+export const LANGUAGES: LanguageInfo[] = [
+  { name: 'Arabic', code: 'ar', iso639_2: 'ara', aliases: ['العربية'], scripts: ['arabic'] },
+  { name: 'Bulgarian', code: 'bg', iso639_2: 'bul', aliases: ['български'], scripts: ['cyrillic'] },
+  { name: 'Chinese', code: 'zh', iso639_2: 'zho', iso639_2b: 'chi', aliases: ['中文', '简体中文', '繁體中文', 'mandarin'], scripts: ['han'], tesseract: 'chi_sim' },
+  { name: 'Czech', code: 'cs', iso639_2: 'ces', iso639_2b: 'cze', aliases: ['čeština'] },
+  { name: 'Danish', code: 'da', iso639_2: 'dan', aliases: ['dansk'] },
+  { name: 'Dutch', code: 'nl', iso639_2: 'nld', iso639_2b: 'dut', aliases: ['nederlands'] },
+  { name: 'English', code: 'en', iso639_2: 'eng' },
+  { name: 'Estonian', code: 'et', iso639_2: 'est', aliases: ['eesti'] },
+  { name: 'Finnish', code: 'fi', iso639_2: 'fin', aliases: ['suomi'] },
+  { name: 'French', code: 'fr', iso639_2: 'fra', iso639_2b: 'fre', aliases: ['français'] },
+  { name: 'German', code: 'de', iso639_2: 'deu', iso639_2b: 'ger', aliases: ['deutsch'] },
+  { name: 'Greek', code: 'el', iso639_2: 'ell', iso639_2b: 'gre', aliases: ['ελληνικά'], scripts: ['greek'] },
+  { name: 'Hebrew', code: 'he', iso639_2: 'heb', aliases: ['עברית'], scripts: ['hebrew'] },
+  { name: 'Hindi', code: 'hi', iso639_2: 'hin', aliases: ['हिन्दी'], scripts: ['devanagari'] },
+  { name: 'Hungarian', code: 'hu', iso639_2: 'hun', aliases: ['magyar'] },
+  { name: 'Indonesian', code: 'id', iso639_2: 'ind', aliases: ['bahasa indonesia'] },
+  { name: 'Italian', code: 'it', iso639_2: 'ita', aliases: ['italiano'] },
+  { name: 'Japanese', code: 'ja', iso639_2: 'jpn', aliases: ['日本語'], scripts: ['han', 'kana'] },
+  { name: 'Korean', code: 'ko', iso639_2: 'kor', aliases: ['한국어'], scripts: ['hangul', 'han'] },
+  { name: 'Latvian', code: 'lv', iso639_2: 'lav', aliases: ['latviešu'] },
+  { name: 'Lithuanian', code: 'lt', iso639_2: 'lit', aliases: ['lietuvių'] },
+  { name: 'Norwegian', code: 'nb', iso639_2: 'nob', aliases: ['norsk', 'bokmål', 'no'], tesseract: 'nor' },
+  { name: 'Persian', code: 'fa', iso639_2: 'fas', iso639_2b: 'per', aliases: ['فارسی', 'farsi'], scripts: ['arabic'] },
+  { name: 'Polish', code: 'pl', iso639_2: 'pol', aliases: ['polski'] },
+  { name: 'Portuguese', code: 'pt', iso639_2: 'por', aliases: ['português'] },
+  { name: 'Romanian', code: 'ro', iso639_2: 'ron', iso639_2b: 'rum', aliases: ['română'] },
+  { name: 'Russian', code: 'ru', iso639_2: 'rus', aliases: ['русский'], scripts: ['cyrillic'] },
+  { name: 'Slovak', code: 'sk', iso639_2: 'slk', iso639_2b: 'slo', aliases: ['slovenčina'] },
+  { name: 'Slovenian', code: 'sl', iso639_2: 'slv', aliases: ['slovenščina'] },
+  { name: 'Spanish', code: 'es', iso639_2: 'spa', aliases: ['español'] },
+  { name: 'Swedish', code: 'sv', iso639_2: 'swe', aliases: ['svenska'] },
+  { name: 'Thai', code: 'th', iso639_2: 'tha', aliases: ['ไทย'], scripts: ['thai'] },
+  { name: 'Turkish', code: 'tr', iso639_2: 'tur', aliases: ['türkçe'] },
+  { name: 'Ukrainian', code: 'uk', iso639_2: 'ukr', aliases: ['українська'], scripts: ['cyrillic'] },
+  { name: 'Urdu', code: 'ur', iso639_2: 'urd', aliases: ['اردو'], scripts: ['arabic'] },
+  { name: 'Vietnamese', code: 'vi', iso639_2: 'vie', aliases: ['tiếng việt'] },
+];
+
+/**
+ * Look up a language by name, native name, ISO code or locale tag
+ * ("Chinese", "中文", "zh", "zh-CN", "Chinese (Traditional)").
+ */
+export function findLanguage(input: string): LanguageInfo | undefined {
+  const value = (input || '').trim().toLowerCase();
+  if (!value) return undefined;
+  const base = value.split(/[-_]/)[0];
+
+  return (
+    LANGUAGES.find(
+      (lang) =>
+        lang.name.toLowerCase() === value ||
+        lang.code === base ||
+        lang.iso639_2 === value ||
+        lang.iso639_2b === value ||
+        (lang.aliases || []).includes(value)
+    ) ??
+    // "Chinese (Traditional)", "Brazilian Portuguese", ...
+    LANGUAGES.find((lang) => value.includes(lang.name.toLowerCase()))
+  );
+}
+
+/**
+ * Three-letter language tag for subtitle track metadata ("und" if unknown)
+ */
+export function trackLanguageTag(input: string, container: 'mp4' | 'mkv'): string {
+  const lang = findLanguage(input);
+  if (!lang) return 'und';
+  return container === 'mkv' ? lang.iso639_2b ?? lang.iso639_2 : lang.iso639_2;
+}
+
+export function languageScripts(lang: LanguageInfo): Script[] {
+  return lang.scripts ?? ['latin'];
+}
+
+// Letters of each script in the text
+function countScripts(text: string): Partial<Record<Script, number>> {
+  const counts: Partial<Record<Script, number>> = {};
+  for (const [script, pattern] of Object.entries(SCRIPT_PATTERNS) as [Script, RegExp][]) {
+    const n = text.match(pattern)?.length ?? 0;
+    if (n > 0) counts[script] = n;
+  }
+  return counts;
+}
+
+// Script with the most letters in the text, if it has any letters
+export function dominantScript(text: string): Script | undefined {
+  const counts = Object.entries(countScripts(text)) as [Script, number][];
+  if (counts.length === 0) return undefined;
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Whether text fits the source language's writing systems. Latin is always
+ * accepted because brand names and units appear in any language.
+ */
+export function matchesLanguageScripts(text: string, lang: LanguageInfo): boolean {
+  const allowed = new Set<Script>([...languageScripts(lang), 'latin']);
+  return Object.keys(countScripts(text)).every((script) => allowed.has(script as Script));
+}
+
+// Frequent short words, to tell Latin-script languages apart. No one-letter
+// words: OCR noise and stray initials produce them in any language.
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'you', 'to', 'of', 'is', 'your', 'with', 'for', 'this', 'it'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'ein', 'eine', 'sie', 'zu', 'auf'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'une', 'pour', 'vous', 'avec', 'dans', 'pas'],
+  es: ['el', 'los', 'las', 'que', 'es', 'una', 'para', 'con', 'por', 'del', 'tu'],
+  it: ['il', 'che', 'di', 'per', 'una', 'non', 'con', 'sono', 'della', 'gli'],
+  pt: ['os', 'que', 'do', 'da', 'um', 'uma', 'para', 'com', 'não', 'você'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'niet', 'met', 'je', 'voor', 'op'],
+  pl: ['nie', 'na', 'się', 'jest', 'to', 'do', 'że'],
+  sv: ['och', 'att', 'det', 'är', 'en', 'som', 'inte', 'med', 'för', 'på'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'da', 'de', 'çok', 'değil'],
+};
+
+// A Latin-script guess needs this many stopwords, and at least twice as many
+// as the runner-up language (neighbours like es/pt share several)
+const MIN_STOPWORD_HITS = 2;
+
+/**
+ * Guess the language of OCR'd lines from their scripts, and for Latin text
+ * from common words. Returns undefined when there is too little to go on.
+ */
+export function detectLanguage(texts: string[]): LanguageInfo | undefined {
+  const text = texts.join('\n');
+  const counts = countScripts(text);
+  const total = Object.values(counts).reduce((sum, n) => sum + (n ?? 0), 0);
+  if (total === 0) return undefined;
+
+  // Kana marks Japanese even when kanji (han) outnumber it
+  if ((counts.kana ?? 0) > 0 && (counts.kana ?? 0) + (counts.han ?? 0) >= total / 2) {
+    return findLanguage('ja');
+  }
+  const [top] = (Object.entries(counts) as [Script, number][]).sort((a, b) => b[1] - a[1]);
+  switch (top[0]) {
+    case 'han':
+      return findLanguage('zh');
+    case 'hangul':
+      return findLanguage('ko');
+    case 'arabic':
+      return findLanguage(/[پچژگ]/.test(text) ? 'fa' : 'ar');
+    case 'hebrew':
+      return findLanguage('he');
+    case 'cyrillic':
+      return findLanguage(/[іїєґ]/i.test(text) ? 'uk' : 'ru');
+    case 'greek':
+      return findLanguage('el');
+    case 'thai':
+      return findLanguage('th');
+    case 'devanagari':
+      return findLanguage('hi');
+  }
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const [best, runnerUp] = Object.entries(LATIN_STOPWORDS)
+    .map(([code, stopwords]) => ({
+      code,
+      score: words.filter((w) => stopwords.includes(w)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+  // Short on-screen text often has few stopwords or none. Guessing would send
+  // the wrong source language to the provider, so leave it to detect
+  if (best.score < MIN_STOPWORD_HITS || best.score < runnerUp.score * 2) return undefined;
+  return findLanguage(best.code);
+}
+
+/**
+ * Resolve a sourceLanguage option: 'auto' (or unset) detects from the given
+ * texts, anything else is looked up. Undefined means unknown.
+ */
+export function resolveSourceLanguage(
+  sourceLanguage: string | undefined,
+  texts: string[] = []
+): LanguageInfo | undefined {
+  if (!sourceLanguage || sourceLanguage.trim().toLowerCase() === 'auto') {
+    return detectLanguage(texts);
+  }
+  return findLanguage(sourceLanguage);
+}
+
+// Tesseract language list for a source language, keeping English for brand names
+export function tesseractLanguages(lang: LanguageInfo): string {
+  const code = lang.tesseract ?? lang.iso639_2;
+  return code === 'eng' ? 'eng' : `${code}+eng`;
+}
@@ -0,0 +1,193 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * OCR flicker: the same on-screen caption read slightly differently on
+ * neighbouring frames ("Hold positon" / "Hold position"), or missed on a
+ * frame or two. Lines are tracked across frames by text similarity and box
+ * overlap; each track gets one canonical text and its short gaps are filled,
+ * so everything downstream that compares exact strings sees one caption.
+ */
+
+// Normalised edit similarity (0-1) at or above which two readings are the same line
+const SUBTITLE_MERGE_SIMILARITY = Number(process.env.SUBTITLE_MERGE_SIMILARITY || 0.8);
+// Box intersection over union needed to link lines on neighbouring frames
+const SUBTITLE_MERGE_MIN_IOU = Number(process.env.SUBTITLE_MERGE_MIN_IOU || 0.3);
+// Seconds without the line that are bridged when it shows again in place (0 disables).
+// Time rather than frames, since one adaptively sampled frame can last seconds.
+const SUBTITLE_BRIDGE_SECONDS = Math.max(0, Number(process.env.SUBTITLE_BRIDGE_SECONDS ?? 1));
+
+type TrackedLine = {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence?: number;
+};
+
+type TimedFrame<L> = { texts: L[]; timestamp: number; duration: number };
+
+type Track<L> = {
+  members: { frame: number; line: L }[];
+  variants: Map<string, { count: number; confidence: number; scored: number; first: number }>;
+  box: TrackedLine;
+  lastFrame: number;
+};
+
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current.push(
+        Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 1 minus the edit distance over the longer text, compared by code point
+ * after case and whitespace folding
+ */
+export function textSimilarity(a: string, b: string): number {
+  const x = Array.from(normalize(a));
+  const y = Array.from(normalize(b));
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(x, y) / longest;
+}
+
+export function boxIoU(a: TrackedLine, b: TrackedLine): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const inter = w * h;
+  return inter / (a.width * a.height + b.width * b.height - inter);
+}
+
+// Mean of the word scores a provider reported for one line, if any
+export function lineConfidence(words: { confidence?: number }[]): number | undefined {
+  const scores = words.map((w) => w.confidence).filter((c): c is number => typeof c === 'number');
+  return scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : undefined;
+}
+
+// Most frequent reading; ties go to the higher mean confidence, then the earliest
+function canonicalText<L>(track: Track<L>): string {
+  let best: [string, { count: number; confidence: number; scored: number; first: number }] | null = null;
+  for (const entry of track.variants) {
+    if (!best) {
+      best = entry;
+      continue;
+    }
+    const [, a] = entry;
+    const [, b] = best;
+    const meanA = a.scored ? a.confidence / a.scored : 0;
+    const meanB = b.scored ? b.confidence / b.scored : 0;
+    if (a.count > b.count || (a.count === b.count && (meanA > meanB || (meanA === meanB && a.first < b.first)))) {
+      best = entry;
+    }
+  }
+  return best ? best[0] : '';
+}
+
+/**
+ * Frames in order (one per sample) with each line's text replaced by its
+ * track's canonical reading, and lines copied into gaps of up to
+ * SUBTITLE_BRIDGE_SECONDS where nothing else covers their box.
+ * Input frames are not modified.
+ */
+export function stabilizeLines<L extends TrackedLine, F extends TimedFrame<L>>(frames: F[]): F[] {
+  const tracks: Track<L>[] = [];
+  let open: Track<L>[] = [];
+
+  // A line seen on frame `from` can link to frame `to` if it's the next frame
+  // or the frames in between are short enough to bridge
+  const linkable = (from: number, to: number) =>
+    to === from + 1 ||
+    frames[to].timestamp - (frames[from].timestamp + frames[from].duration) <= SUBTITLE_BRIDGE_SECONDS;
+
+  frames.forEach((frame, index) => {
+    open = open.filter((t) => linkable(t.lastFrame, index));
+
+    // Best pairs first, so each line joins at most one track and vice versa
+    const pairs: { line: L; track: Track<L>; score: number }[] = [];
+    for (const line of frame.texts || []) {
+      if (!line.text) continue;
+      for (const track of open) {
+        if (track.lastFrame === index) continue;
+        const iou = boxIoU(line, track.box);
+        if (iou < SUBTITLE_MERGE_MIN_IOU) continue;
+        const similarity = Math.max(
+          textSimilarity(line.text, track.members[track.members.length - 1].line.text),
+          textSimilarity(line.text, canonicalText(track))
+        );
+        if (similarity >= SUBTITLE_MERGE_SIMILARITY) pairs.push({ line, track, score: similarity + iou });
+      }
+    }
+    pairs.sort((a, b) => b.score - a.score);
+
+    const placed = new Set<L>();
+    const add = (track: Track<L>, line: L) => {
+      track.members.push({ frame: index, line });
+      const variant = track.variants.get(line.text) || { count: 0, confidence: 0, scored: 0, first: index };
+      variant.count++;
+      if (typeof line.confidence === 'number') {
+        variant.confidence += line.confidence;
+        variant.scored++;
+      }
+      track.variants.set(line.text, variant);
+      track.box = line;
+      track.lastFrame = index;
+      placed.add(line);
+    };
+    for (const { line, track } of pairs) {
+      if (placed.has(line) || track.lastFrame === index) continue;
+      add(track, line);
+    }
+    for (const line of frame.texts || []) {
+      if (!line.text || placed.has(line)) continue;
+      const track: Track<L> = { members: [], variants: new Map(), box: line, lastFrame: -1 };
+      add(track, line);
+      tracks.push(track);
+      open.push(track);
+    }
+  });
+
+  const texts = frames.map((frame) => (frame.texts || []).slice());
+  const canonical = new Map<L, string>();
+  for (const track of tracks) {
+    const text = canonicalText(track);
+    track.members.forEach(({ line }) => canonical.set(line, text));
+
+    for (let m = 1; m < track.members.length; m++) {
+      const from = track.members[m - 1];
+      const to = track.members[m].frame;
+      for (let gap = from.frame + 1; gap < to; gap++) {
+        // Another line where the caption would be means it really changed
+        if (texts[gap].some((other) => boxIoU(other, from.line) > 0)) continue;
+        texts[gap].push(from.line);
+      }
+    }
+  }
+
+  return frames.map((frame, index) => ({
+    ...frame,
+    texts: texts[index].map((line) => {
+      const text = canonical.get(line);
+      return text === undefined || text === line.text ? { ...line } : { ...line, text };
+    }),
+  }));
+}
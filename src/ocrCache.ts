@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import dotenv from 'dotenv';
+import { database } from './database.js';
+import { storage } from './storage.js';
+import { samplingSettings } from './frameExtractor.js';
+import { ocrSettings } from './ocrService.js';
+import type { LanguageInfo } from './languages.js';
+import type { DetectionFrame } from './types.js';
+
+dotenv.config();
+
+// Set OCR_CACHE=0 to extract and OCR every upload
+const OCR_CACHE_ENABLED = (process.env.OCR_CACHE || '1') !== '0';
+// Bump when the cached payload or the pipeline before it changes shape
+const OCR_CACHE_FORMAT = 1;
+
+/**
+ * What a cached OCR pass is valid for: the exact input bytes, the OCR
+ * provider and version, and the sampling and OCR settings used.
+ */
+export interface OcrCacheScope {
+  videoHash: string; // SHA-256 of the input file
+  provider: string;
+  providerVersion: string;
+  settings: Record<string, string | number>;
+}
+
+export interface OcrCacheEntry extends OcrCacheScope {
+  id: string;
+  storageKey: string;
+  frames: number;
+  sizeBytes: number;
+  hits: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface OcrCacheFilter {
+  videoHash?: string;
+  provider?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export function isOcrCacheEnabled(): boolean {
+  return OCR_CACHE_ENABLED;
+}
+
+/**
+ * SHA-256 of a file, hex encoded, streamed so large videos stay out of memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+export function ocrCacheScope(videoHash: string, language?: LanguageInfo): OcrCacheScope {
+  const ocr = ocrSettings(language);
+  return {
+    videoHash,
+    provider: ocr.provider,
+    providerVersion: ocr.providerVersion,
+    settings: {
+      format: OCR_CACHE_FORMAT,
+      ...samplingSettings(),
+      skipIntro: Number(process.env.SKIP_INTRO_SECONDS || 0),
+      skipOutro: Number(process.env.SKIP_OUTRO_SECONDS || 0),
+      ...ocr.settings,
+    },
+  };
+}
+
+// Deterministic id: the same video under the same settings always maps to one entry
+export function ocrCacheId(scope: OcrCacheScope): string {
+  const settings = Object.keys(scope.settings)
+    .sort()
+    .map((key) => `${key}=${scope.settings[key]}`);
+  return crypto
+    .createHash('sha256')
+    .update([scope.videoHash, scope.provider, scope.providerVersion, ...settings].join('\u0000'))
+    .digest('hex');
+}
+
+function tempPath(id: string): string {
+  return path.join(os.tmpdir(), `ocr_cache_${id}_${process.pid}_${Date.now()}.json`);
+}
+
+/**
+ * Cached detections for the scope, or null. Errors are logged and treated as
+ * misses so a storage problem never blocks a job.
+ */
+export async function loadOcrCache(scope: OcrCacheScope): Promise<DetectionFrame[] | null> {
+  if (!OCR_CACHE_ENABLED) return null;
+  const id = ocrCacheId(scope);
+  const file = tempPath(id);
+  try {
+    const entry = await database.getOcrCacheEntry(id, true);
+    if (!entry) return null;
+    await storage.download(entry.storageKey, file);
+    const payload = JSON.parse(await fs.readFile(file, 'utf-8'));
+    return Array.isArray(payload?.detections) ? payload.detections : null;
+  } catch (error) {
+    console.error('   ⚠️  OCR cache lookup failed:', (error as Error).message);
+    return null;
+  } finally {
+    await fs.unlink(file).catch(() => {});
+  }
+}
+
+export async function storeOcrCache(
+  scope: OcrCacheScope,
+  detections: DetectionFrame[]
+): Promise<void> {
+  if (!OCR_CACHE_ENABLED) return;
+  const id = ocrCacheId(scope);
+  const storageKey = `ocr-cache/${id}.json`;
+  const file = tempPath(id);
+  try {
+    const body = JSON.stringify({ scope, detections });
+    await fs.writeFile(file, body);
+    await storage.upload(file, storageKey);
+    const now = Date.now();
+    await database.saveOcrCacheEntry({
+      ...scope,
+      id,
+      storageKey,
+      frames: detections.length,
+      sizeBytes: Buffer.byteLength(body),
+      hits: 0,
+      createdAt: now,
+      lastUsedAt: now,
+    });
+  } catch (error) {
+    console.error('   ⚠️  OCR cache store failed:', (error as Error).message);
+  } finally {
+    await fs.unlink(file).catch(() => {});
+  }
+}
+
+/**
+ * Remove matching entries and their stored payloads; returns what was removed
+ */
+export async function evictOcrCache(
+  filter: Omit<OcrCacheFilter, 'limit' | 'offset'> & { id?: string }
+): Promise<OcrCacheEntry[]> {
+  const removed = await database.deleteOcrCache(filter);
+  for (const entry of removed) {
+    await storage.delete(entry.storageKey).catch((error) => {
+      console.error(`   ⚠️  Could not delete ${entry.storageKey}:`, (error as Error).message);
+    });
+  }
+  return removed;
+}
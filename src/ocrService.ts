@@ -1,13 +1,77 @@
 import { promises as fs } from "fs";
+import path from "path";
+import { execFile } from "child_process";
 import fetch from "node-fetch";
 import dotenv from "dotenv";
-import type { TextBox } from "./types.js";
+import type { DetectionFrame, FrameInfo, TextBox } from "./types.js";
+import { cancelledError, isAbortError, throwIfAborted } from "./abort.js";
+import { frameHashes, hashDistance } from "./frameExtractor.js";
+import { matchesLanguageScripts, tesseractLanguages } from "./languages.js";
+import type { LanguageInfo } from "./languages.js";
 
 dotenv.config();
 
+// OCR configuration
+const OCR_PROVIDER = process.env.OCR_PROVIDER || "google"; // 'google' | 'tesseract' | 'fixture'
+const OCR_MIN_CONFIDENCE = Number(process.env.OCR_MIN_CONFIDENCE || 0); // 0-1, boxes without a score are kept
+const OCR_RECORD_DIR = process.env.OCR_RECORD_DIR || ""; // save raw results as fixtures
+
 const GOOGLE_VISION_API_KEY = process.env.GOOGLE_VISION_API_KEY!;
 const VISION_API_URL = `https://vision.googleapis.com/v1/images:annotate?key=${GOOGLE_VISION_API_KEY}`;
 
+const TESSERACT_PATH = process.env.TESSERACT_PATH || "tesseract";
+const TESSERACT_LANG = process.env.TESSERACT_LANG || "eng"; // e.g. eng+chi_sim; used when the source language is unknown
+const TESSERACT_PSM = process.env.TESSERACT_PSM || "11"; // sparse text: find as much text as possible
+
+const OCR_FIXTURES_DIR = process.env.OCR_FIXTURES_DIR || "./fixtures/ocr";
+
+// Frames are OCR'd OCR_CONCURRENCY at a time; calls to each provider are
+// capped at OCR_RATE_LIMIT per second (0 = unlimited), with bursts up to OCR_RATE_BURST
+const OCR_CONCURRENCY = Math.max(1, Number(process.env.OCR_CONCURRENCY || 4));
+const OCR_RATE_LIMIT = Math.max(0, Number(process.env.OCR_RATE_LIMIT || 10));
+const OCR_RATE_BURST = Math.max(1, Number(process.env.OCR_RATE_BURST || OCR_RATE_LIMIT || 1));
+// Calls that fail with 429, 5xx or a network error are retried with exponential backoff
+const OCR_MAX_RETRIES = Math.max(0, Number(process.env.OCR_MAX_RETRIES || 4));
+const OCR_RETRY_BASE_MS = Math.max(50, Number(process.env.OCR_RETRY_BASE_MS || 500));
+
+// Frames that look the same as the last OCR'd one reuse its results
+const OCR_DEDUP = (process.env.OCR_DEDUP || "1") !== "0";
+const OCR_DEDUP_MAX_DISTANCE = Number(process.env.OCR_DEDUP_MAX_DISTANCE || 6); // differing hash bits, of 256
+const OCR_DEDUP_REGION = (process.env.OCR_DEDUP_REGION || "subtitle").toLowerCase(); // 'subtitle' | 'frame'
+
+/**
+ * A text detection backend. Returns raw word-level boxes; cleaning and
+ * filtering happen in detectTextInFrame so every provider behaves the same.
+ * `language` is the source language when known, for providers that take hints.
+ */
+export interface OcrProvider {
+  readonly name: string;
+  readonly version: string; // changes when the same frame may give different results
+  detect(imagePath: string, signal?: AbortSignal, language?: LanguageInfo): Promise<TextBox[]>;
+}
+
+/**
+ * Error from an OCR provider. `retryable` marks failures worth another try:
+ * rate limiting, server errors and network errors.
+ */
+export type OcrError = Error & { statusCode?: number; retryable?: boolean; retryAfterMs?: number };
+
+function ocrError(
+  message: string,
+  details: { statusCode?: number; retryable?: boolean; retryAfterMs?: number } = {}
+): OcrError {
+  return Object.assign(new Error(message), details);
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
 interface VisionResponse {
   responses?: Array<{
     textAnnotations?: Array<{
@@ -15,8 +79,21 @@ interface VisionResponse {
       boundingPoly: {
         vertices: Array<{ x?: number; y?: number }>;
       };
-      confidence?: number;
     }>;
+    // Same words with per-word scores (textAnnotations carry none)
+    fullTextAnnotation?: {
+      pages?: Array<{
+        blocks?: Array<{
+          paragraphs?: Array<{
+            words?: Array<{
+              boundingBox?: { vertices: Array<{ x?: number; y?: number }> };
+              symbols?: Array<{ text: string }>;
+              confidence?: number;
+            }>;
+          }>;
+        }>;
+      }>;
+    };
   }>;
 }
 
@@ -31,11 +108,6 @@ function isValidText(text: string): boolean {
     return false;
   }
 
-  // Filter out Arabic/Persian/Hebrew characters (common OCR noise)
-  if (/[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\u0590-\u05FF]/.test(text)) {
-    return false;
-  }
-
   if ((process.env.OCR_FILTER_STANDALONE_NUMBERS || '0') === '1') {
     if (/^\d{1,3}$/.test(text) && text.length <= 3) {
       return false;
@@ -88,17 +160,31 @@ function cleanOCRText(text: string): string {
   return text;
 }
 
-/**
- * Detect text in a single frame image
- */
-export async function detectTextInFrame(imagePath: string): Promise<TextBox[]> {
-  try {
+function boxFromVertices(vertices: Array<{ x?: number; y?: number }>) {
+  const x = Math.min(...vertices.map((v) => v.x || 0));
+  const y = Math.min(...vertices.map((v) => v.y || 0));
+  const width = Math.max(...vertices.map((v) => v.x || 0)) - x;
+  const height = Math.max(...vertices.map((v) => v.y || 0)) - y;
+  return { x, y, width, height };
+}
+
+// Google Cloud Vision TEXT_DETECTION
+class GoogleVisionOcr implements OcrProvider {
+  readonly name = "google";
+  readonly version = "v1:TEXT_DETECTION:words";
+
+  async detect(
+    imagePath: string,
+    signal?: AbortSignal,
+    language?: LanguageInfo
+  ): Promise<TextBox[]> {
     const imageBuffer = await fs.readFile(imagePath);
     const base64Image = imageBuffer.toString("base64");
 
     const response = await fetch(VISION_API_URL, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
+      signal,
       body: JSON.stringify({
         requests: [
           {
@@ -109,100 +195,405 @@ export async function detectTextInFrame(imagePath: string): Promise<TextBox[]> {
                 maxResults: 100,
               },
             ],
-            imageContext: {
-              languageHints: ["en"], // Hint for English text
-            },
+            // Without hints Vision detects the language itself
+            imageContext: language ? { languageHints: [language.code] } : undefined,
           },
         ],
       }),
+    }).catch((error: Error) => {
+      if (signal?.aborted) throw error;
+      throw ocrError(`Vision API request failed: ${error.message}`, { retryable: true });
     });
 
     if (!response.ok) {
-      throw new Error(`Vision API error: ${response.statusText}`);
+      throw ocrError(`Vision API error: ${response.status} ${response.statusText}`, {
+        statusCode: response.status,
+        retryable: response.status === 429 || response.status >= 500,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
     }
 
     const data = await response.json() as VisionResponse;
-    const annotations = data.responses?.[0]?.textAnnotations || [];
+    const result = data.responses?.[0];
 
-    if (annotations.length === 0) {
-      return [];
+    // Words from the full text annotation, which is where Vision reports confidence
+    const words = (result?.fullTextAnnotation?.pages || []).flatMap((page) =>
+      (page.blocks || []).flatMap((block) =>
+        (block.paragraphs || []).flatMap((paragraph) => paragraph.words || [])
+      )
+    );
+    if (words.length > 0) {
+      return words.flatMap((word) => {
+        const text = (word.symbols || []).map((symbol) => symbol.text).join("");
+        if (!text || !word.boundingBox) return [];
+        const box = boxFromVertices(word.boundingBox.vertices);
+        return [{ text, ...box, fontSize: Math.round(box.height * 0.8), confidence: word.confidence }];
+      });
     }
 
-    const texts: TextBox[] = [];
-    // Skip first annotation (full text), process individual words
-    for (let i = 1; i < annotations.length; i++) {
-      const annotation = annotations[i];
-      const cleanedText = cleanOCRText(annotation.description);
-
-      // Skip invalid text
-      if (!isValidText(cleanedText)) {
-        continue;
-      }
-
-      const vertices = annotation.boundingPoly.vertices;
-
-      const x = Math.min(...vertices.map((v) => v.x || 0));
-      const y = Math.min(...vertices.map((v) => v.y || 0));
-      const width = Math.max(...vertices.map((v) => v.x || 0)) - x;
-      const height = Math.max(...vertices.map((v) => v.y || 0)) - y;
+    // Skip first annotation (full text), keep individual words
+    const annotations = result?.textAnnotations || [];
+    return annotations.slice(1).map((annotation) => {
+      const box = boxFromVertices(annotation.boundingPoly.vertices);
+      return {
+        text: annotation.description,
+        ...box,
+        fontSize: Math.round(box.height * 0.8),
+      };
+    });
+  }
+}
 
-      // Skip tiny boxes (likely noise)
-      if (width < 5 || height < 5) {
-        continue;
-      }
+// Local Tesseract CLI (tesseract <image> stdout tsv), no network needed
+class TesseractOcr implements OcrProvider {
+  readonly name = "tesseract";
+  readonly version = `psm${TESSERACT_PSM}:${TESSERACT_LANG}`;
+
+  async detect(
+    imagePath: string,
+    signal?: AbortSignal,
+    language?: LanguageInfo
+  ): Promise<TextBox[]> {
+    const lang = language ? tesseractLanguages(language) : TESSERACT_LANG;
+    const tsv = await new Promise<string>((resolve, reject) => {
+      execFile(
+        TESSERACT_PATH,
+        [imagePath, "stdout", "-l", lang, "--psm", TESSERACT_PSM, "tsv"],
+        { signal, maxBuffer: 16 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(signal?.aborted ? error : new Error(`Tesseract error: ${stderr || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
 
+    // Columns: level page_num block_num par_num line_num word_num left top width height conf text
+    const texts: TextBox[] = [];
+    for (const line of tsv.split("\n").slice(1)) {
+      const cols = line.split("\t");
+      if (cols.length < 12 || cols[0] !== "5") continue; // level 5 = word
+      const [left, top, width, height, conf] = cols.slice(6, 11).map(Number);
+      const text = cols.slice(11).join("\t");
+      if (!text.trim() || conf < 0) continue;
       texts.push({
-        text: cleanedText,
-        x,
-        y,
+        text,
+        x: left,
+        y: top,
         width,
         height,
         fontSize: Math.round(height * 0.8),
+        confidence: conf / 100,
       });
     }
-
     return texts;
+  }
+}
+
+/**
+ * Replays saved results from OCR_FIXTURES_DIR: one <frame name>.json file per
+ * frame holding a TextBox[]. Frames without a fixture have no text.
+ */
+class FixtureOcr implements OcrProvider {
+  readonly name = "fixture";
+  readonly version = OCR_FIXTURES_DIR;
+
+  async detect(imagePath: string): Promise<TextBox[]> {
+    try {
+      const raw = await fs.readFile(fixturePath(OCR_FIXTURES_DIR, imagePath), "utf-8");
+      return JSON.parse(raw) as TextBox[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
+
+function fixturePath(dir: string, imagePath: string): string {
+  return path.join(dir, `${path.parse(imagePath).name}.json`);
+}
+
+// Factory function to get the configured OCR provider
+export function getOcrProvider(): OcrProvider {
+  switch (OCR_PROVIDER) {
+    case "tesseract":
+      return new TesseractOcr();
+    case "fixture":
+      return new FixtureOcr();
+    case "google":
+    default:
+      return new GoogleVisionOcr();
+  }
+}
+
+// Singleton instance
+export const ocrProvider = getOcrProvider();
+
+/**
+ * The provider and every setting that changes what detectTextInFrames
+ * returns for the same frames, for cache keys
+ */
+export function ocrSettings(language?: LanguageInfo): {
+  provider: string;
+  providerVersion: string;
+  settings: Record<string, string | number>;
+} {
+  return {
+    provider: ocrProvider.name,
+    providerVersion: ocrProvider.version,
+    settings: {
+      language: language?.code ?? "auto",
+      minConfidence: OCR_MIN_CONFIDENCE,
+      numbers: `${process.env.OCR_FILTER_STANDALONE_NUMBERS || "0"}:${process.env.OCR_ALLOW_MULTI_DIGIT_NUMBERS || "0"}`,
+      dedup: OCR_DEDUP ? `${OCR_DEDUP_MAX_DISTANCE}:${OCR_DEDUP_REGION}` : "off",
+    },
+  };
+}
+
+/**
+ * Token bucket: holds up to `burst` tokens, refilled at `ratePerSecond`.
+ * Each provider call takes one, waiting for a refill when it's empty.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private ratePerSecond: number, private burst: number) {
+    this.tokens = burst;
+  }
+
+  take(signal?: AbortSignal): Promise<void> {
+    // Chained so waiters are served in order
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000, signal);
+    }
+  }
+}
+
+// One bucket per provider, shared by every job in the process
+const rateLimiters = new Map<string, TokenBucket>();
+
+function rateLimiterFor(provider: OcrProvider): TokenBucket | null {
+  if (OCR_RATE_LIMIT <= 0) return null;
+  let bucket = rateLimiters.get(provider.name);
+  if (!bucket) {
+    bucket = new TokenBucket(OCR_RATE_LIMIT, OCR_RATE_BURST);
+    rateLimiters.set(provider.name, bucket);
+  }
+  return bucket;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Call the provider within its rate limit, retrying retryable errors with
+ * exponential backoff (or the provider's Retry-After, when longer)
+ */
+async function detectWithRetry(
+  imagePath: string,
+  signal?: AbortSignal,
+  language?: LanguageInfo
+): Promise<TextBox[]> {
+  const limiter = rateLimiterFor(ocrProvider);
+  for (let attempt = 0; ; attempt++) {
+    await limiter?.take(signal);
+    try {
+      return await ocrProvider.detect(imagePath, signal, language);
+    } catch (error) {
+      if (isAbortError(error, signal)) throw error;
+      const { retryable, retryAfterMs } = error as OcrError;
+      if (!retryable || attempt >= OCR_MAX_RETRIES) throw error;
+      const delay = Math.max(OCR_RETRY_BASE_MS * 2 ** attempt, retryAfterMs ?? 0);
+      console.warn(
+        `   ⚠️  OCR failed for ${path.basename(imagePath)} (${(error as Error).message}), retrying in ${delay}ms...`
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Detect text in a single frame image. With a known source language, words
+ * in scripts that language doesn't use are dropped as noise. Throws when the
+ * provider still fails after retries.
+ */
+export async function detectTextInFrame(
+  imagePath: string,
+  signal?: AbortSignal,
+  language?: LanguageInfo
+): Promise<TextBox[]> {
+  const raw = await detectWithRetry(imagePath, signal, language);
+
+  if (OCR_RECORD_DIR) {
+    await fs.mkdir(OCR_RECORD_DIR, { recursive: true });
+    await fs.writeFile(fixturePath(OCR_RECORD_DIR, imagePath), JSON.stringify(raw, null, 2));
+  }
+
+  const texts: TextBox[] = [];
+  for (const box of raw) {
+    const cleanedText = cleanOCRText(box.text);
+
+    // Skip invalid text
+    if (!isValidText(cleanedText)) {
+      continue;
+    }
+
+    // Skip words in scripts the source language doesn't use
+    if (language && !matchesLanguageScripts(cleanedText, language)) {
+      continue;
+    }
+
+    // Skip tiny boxes (likely noise)
+    if (box.width < 5 || box.height < 5) {
+      continue;
+    }
+
+    // Skip low-confidence words when the provider reports a score
+    if (box.confidence !== undefined && box.confidence < OCR_MIN_CONFIDENCE) {
+      continue;
+    }
+
+    texts.push({ ...box, text: cleanedText });
+  }
+
+  return texts;
+}
+
+export interface DetectOptions {
+  signal?: AbortSignal;
+  onFrame?: (done: number, total: number) => void;
+  language?: LanguageInfo; // source language, when known up front
+}
+
+// Frame hashes for OCR reuse; without them every frame is OCR'd
+async function hashesForDedup(frames: FrameInfo[], signal?: AbortSignal): Promise<Buffer[]> {
+  if (!OCR_DEDUP || frames.length < 2) return [];
+  try {
+    return await frameHashes(frames, { subtitleRegion: OCR_DEDUP_REGION !== "frame", signal });
   } catch (error) {
-    console.error(
-      `   ⚠️  OCR failed for ${imagePath}:`,
-      (error as Error).message
-    );
+    if (isAbortError(error, signal)) throw error;
+    console.warn(`   ⚠️  Frame hashing failed, OCR will run on every frame: ${(error as Error).message}`);
     return [];
   }
 }
 
+// Run the worker over the indexes, OCR_CONCURRENCY at a time
+async function runPool(indexes: number[], worker: (index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(OCR_CONCURRENCY, indexes.length) }, async () => {
+    while (next < indexes.length) await worker(indexes[next++]);
+  });
+  await Promise.all(lanes);
+}
+
 /**
- * Detect text in multiple frames
+ * Detect text in multiple frames, OCR_CONCURRENCY at a time. A frame whose
+ * perceptual hash is within OCR_DEDUP_MAX_DISTANCE of the last OCR'd frame
+ * reuses that frame's boxes (marked with `reusedFrom`) instead of calling
+ * the provider. Frames the provider still fails on after retries come back
+ * with `error` set and no texts.
  */
 export async function detectTextInFrames(
-  frames: Array<{ path: string; name: string; frameNumber: number }>
-): Promise<
-  Array<{
-    framePath: string;
-    frameName: string;
-    frameNumber: number;
-    texts: TextBox[];
-  }>
-> {
-  const detections = [];
-
-  for (const frame of frames) {
-    process.stdout.write(
-      `   Processing frame ${frame.frameNumber}/${frames.length}...\r`
-    );
-
-    const texts = await detectTextInFrame(frame.path);
-
-    detections.push({
+  frames: FrameInfo[],
+  opts: DetectOptions = {}
+): Promise<DetectionFrame[]> {
+  const { signal, onFrame, language } = opts;
+  const hashes = await hashesForDedup(frames, signal);
+
+  // The frame each frame takes its results from: itself, or the last OCR'd
+  // frame when they look the same
+  const sourceOf: number[] = [];
+  let last = -1;
+  for (let i = 0; i < frames.length; i++) {
+    const similar =
+      last >= 0 &&
+      hashes[i] &&
+      hashes[last] &&
+      hashDistance(hashes[i], hashes[last]) <= OCR_DEDUP_MAX_DISTANCE;
+    if (!similar) last = i;
+    sourceOf.push(last);
+  }
+  const copies = new Map<number, number>();
+  sourceOf.forEach((source) => copies.set(source, (copies.get(source) || 0) + 1));
+
+  const results: ({ texts: TextBox[] } | { error: string })[] = new Array(frames.length);
+  let done = 0;
+  const ocr = (countsTowardProgress: boolean) => async (index: number) => {
+    const frame = frames[index];
+    try {
+      results[index] = { texts: await detectTextInFrame(frame.path, signal, language) };
+    } catch (error) {
+      if (isAbortError(error, signal)) throw error;
+      console.error(`   ❌ OCR failed for ${frame.name}: ${(error as Error).message}`);
+      results[index] = { error: (error as Error).message };
+    }
+    if (!countsTowardProgress) return;
+    done += copies.get(index) || 1;
+    process.stdout.write(`   Processing frame ${done}/${frames.length}...\r`);
+    onFrame?.(done, frames.length);
+  };
+
+  const sources = Array.from(copies.keys());
+  await runPool(sources, ocr(true));
+  // Frames whose source failed get their own try
+  const orphans = sourceOf.flatMap((source, index) =>
+    source !== index && "error" in results[source] ? [index] : []
+  );
+  await runPool(orphans, ocr(false));
+
+  let reused = 0;
+  const detections: DetectionFrame[] = frames.map((frame, index) => {
+    const base = {
       framePath: frame.path,
       frameName: frame.name,
       frameNumber: frame.frameNumber,
-      texts,
-    });
-
-    await new Promise((resolve) => setTimeout(resolve, 100));
-  }
+      timestamp: frame.timestamp,
+      duration: frame.duration,
+    };
+    const own = results[index];
+    if (own) return "error" in own ? { ...base, texts: [], error: own.error } : { ...base, texts: own.texts };
+    const source = results[sourceOf[index]] as { texts: TextBox[] };
+    reused++;
+    return {
+      ...base,
+      texts: source.texts.map((t) => ({ ...t })),
+      reusedFrom: frames[sourceOf[index]].frameNumber,
+    };
+  });
 
   console.log(""); // New line after progress
+  if (reused > 0) {
+    console.log(`   ♻️  Reused OCR results for ${reused} similar frames`);
+  }
   return detections;
 }
@@ -0,0 +1,130 @@
+import type { SubtitleSegment, TextRegion } from './types.js';
+
+/**
+ * Reviewer edits to a job's subtitle segments. Indexes refer to the list as
+ * it stands when the edit is applied, so later edits see earlier ones.
+ */
+export type SegmentEdit =
+  | { op: 'update'; index: number; translatedText?: string; start?: number; end?: number }
+  | { op: 'split'; index: number; at: number; translatedText?: [string, string] }
+  | { op: 'merge'; index: number; translatedText?: string } // merges index and index + 1
+  | { op: 'delete'; index: number };
+
+// Keep timestamps at millisecond precision
+function roundTime(sec: number): number {
+  return Math.round(sec * 1000) / 1000;
+}
+
+function joinTexts(a: string, b: string): string {
+  return [a, b].map((t) => t.trim()).filter(Boolean).join(' ');
+}
+
+function validateBox(raw: unknown, i: number): TextRegion | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const box = raw as Partial<TextRegion>;
+  const [x, y, width, height] = [box.x, box.y, box.width, box.height].map(Number);
+  if (![x, y, width, height].every(isFinite) || x < 0 || y < 0 || width <= 0 || height <= 0) {
+    throw new Error(`Segment ${i}: box needs non-negative x and y and positive width and height`);
+  }
+  return { x, y, width, height };
+}
+
+/**
+ * Check a segment list is well formed and return a normalised copy.
+ * Throws with a message suitable for a 400 response.
+ */
+export function validateSegments(input: unknown): SubtitleSegment[] {
+  if (!Array.isArray(input)) throw new Error('segments must be an array');
+
+  const segments = input.map((raw, i) => {
+    const seg = raw as Partial<SubtitleSegment>;
+    const start = Number(seg?.start);
+    const end = Number(seg?.end);
+    if (!isFinite(start) || !isFinite(end) || start < 0) {
+      throw new Error(`Segment ${i}: start and end must be non-negative numbers`);
+    }
+    if (end <= start) throw new Error(`Segment ${i}: end must be after start`);
+    if (typeof seg.translatedText !== 'string') {
+      throw new Error(`Segment ${i}: translatedText must be a string`);
+    }
+    const box = validateBox(seg.box, i);
+    return {
+      start: roundTime(start),
+      end: roundTime(end),
+      originalText: typeof seg.originalText === 'string' ? seg.originalText : '',
+      translatedText: seg.translatedText,
+      ...(box && { box }),
+    };
+  });
+
+  // Captions follow each other; positioned (in-place) lines may show at the same time
+  let previous = -1;
+  for (let i = 0; i < segments.length; i++) {
+    if (i > 0 && segments[i].start < segments[i - 1].start) {
+      throw new Error(`Segment ${i} is out of order with segment ${i - 1}`);
+    }
+    if (segments[i].box) continue;
+    if (previous >= 0 && segments[i].start < segments[previous].end) {
+      throw new Error(`Segment ${i} overlaps or is out of order with segment ${previous}`);
+    }
+    previous = i;
+  }
+  return segments;
+}
+
+export function applySegmentEdits(
+  segments: SubtitleSegment[],
+  edits: SegmentEdit[]
+): SubtitleSegment[] {
+  if (!Array.isArray(edits)) throw new Error('edits must be an array');
+  const out = segments.map((s) => ({ ...s }));
+
+  edits.forEach((edit, n) => {
+    const seg = out[edit?.index];
+    if (!seg) throw new Error(`Edit ${n}: no segment at index ${edit?.index}`);
+
+    switch (edit.op) {
+      case 'update':
+        if (edit.translatedText !== undefined) seg.translatedText = String(edit.translatedText);
+        if (edit.start !== undefined) seg.start = Number(edit.start);
+        if (edit.end !== undefined) seg.end = Number(edit.end);
+        break;
+      case 'split': {
+        const at = Number(edit.at);
+        if (!(at > seg.start && at < seg.end)) {
+          throw new Error(`Edit ${n}: split point must be inside the segment`);
+        }
+        const [first, second] = edit.translatedText ?? [seg.translatedText, seg.translatedText];
+        out.splice(
+          edit.index,
+          1,
+          { ...seg, end: at, translatedText: String(first) },
+          { ...seg, start: at, translatedText: String(second) }
+        );
+        break;
+      }
+      case 'merge': {
+        const next = out[edit.index + 1];
+        if (!next) throw new Error(`Edit ${n}: no segment after index ${edit.index} to merge with`);
+        out.splice(edit.index, 2, {
+          ...(seg.box && { box: seg.box }),
+          start: seg.start,
+          end: next.end,
+          originalText: joinTexts(seg.originalText, next.originalText),
+          translatedText:
+            edit.translatedText !== undefined
+              ? String(edit.translatedText)
+              : joinTexts(seg.translatedText, next.translatedText),
+        });
+        break;
+      }
+      case 'delete':
+        out.splice(edit.index, 1);
+        break;
+      default:
+        throw new Error(`Edit ${n}: unknown op "${(edit as any)?.op}"`);
+    }
+  });
+
+  return validateSegments(out);
+}
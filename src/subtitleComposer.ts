@@ -3,6 +3,24 @@ import dotenv from "dotenv";
 import fs from "fs/promises";
 import path from "path";
 import fetch from "node-fetch";
+import { cancelledError, killOnAbort, throwIfAborted } from "./abort.js";
+import type { SubtitleSegment } from "./types.js";
+import { assTime, escapeAssText, toSrt } from "./subtitleFormats.js";
+import { sampleSpan } from "./frameExtractor.js";
+import {
+  directionalLine,
+  estimateTextWidth,
+  fallbackFont,
+  wrapText,
+} from "./textLayout.js";
+import { findFontInDir, findSystemFont, loadFontMetrics } from "./fontMetrics.js";
+import {
+  coverRegion,
+  delogoFilters,
+  placedSegmentsFromFrames,
+  sampleCoverColors,
+} from "./textPlacement.js";
+import type { FontMetrics } from "./fontMetrics.js";
 
 dotenv.config();
 
@@ -50,9 +68,24 @@ const SUB_BG_ASS = hexToAss(process.env.SUB_BG_COLOR, "00000080"); // default se
 // Optional external font (e.g., Google/Noto): provide a direct .ttf/.otf URL and optional name
 const ASS_FONT_URL = process.env.ASS_FONT_URL || "";
 const ASS_FONT_NAME = process.env.ASS_FONT_NAME || "";
-
-type FrameText = { translatedText?: string };
-export type TranslatedFrame = { frameNumber: number; texts: FrameText[] };
+// Directory of extra fonts, used before the system fonts (e.g. fonts not installed system-wide)
+const ASS_FONTS_DIR = process.env.ASS_FONTS_DIR || "";
+
+type FrameText = {
+  text?: string;
+  translatedText?: string;
+  // Line box, used by in-place placement
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+};
+export type TranslatedFrame = {
+  frameNumber: number;
+  timestamp?: number; // seconds; unset in render state saved before adaptive sampling
+  duration?: number;
+  texts: FrameText[];
+};
 
 export type SubtitleOptions = {
   baseFontSize?: number;
@@ -74,6 +107,21 @@ export type SubtitleOptions = {
   padTop?: number; // top padding
   padBottom?: number; // bottom padding
   maxWidthFraction?: number; // fraction of video width used for text block (0.5..0.98)
+  // Where translations go: a bottom caption, or over the original text
+  placement?: Placement;
+  coverStyle?: CoverStyle; // in-place: how the original text is hidden
+};
+
+export type Placement = "bottom" | "in-place";
+export const PLACEMENTS: Placement[] = ["bottom", "in-place"];
+
+// patch: fill with the sampled background colour; delogo: blur it out; none: draw over it
+export type CoverStyle = "patch" | "delogo" | "none";
+export const COVER_STYLES: CoverStyle[] = ["patch", "delogo", "none"];
+
+export type RenderControl = {
+  signal?: AbortSignal;
+  onProgress?: (percent: number) => void; // encode progress 0-100
 };
 
 async function ensureExternalFont(
@@ -158,54 +206,87 @@ function deriveFontNameFromFilename(fname: string): string {
   return base;
 }
 
-function isCJK(s: string): boolean {
-  return /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]/.test(s || "");
-}
-
-function assTime(sec: number): string {
-  const cs = Math.max(0, Math.round(sec * 100));
-  const h = Math.floor(cs / 360000);
-  const m = Math.floor((cs % 360000) / 6000);
-  const s = Math.floor((cs % 6000) / 100);
-  const c = cs % 100;
-  return `${h}:${m.toString().padStart(2, "0")}:${s
-    .toString()
-    .padStart(2, "0")}.${c.toString().padStart(2, "0")}`;
-}
-
-function escAss(s: string): string {
-  return String(s || "")
-    .replace(/\\/g, "\\")
-    .replace(/\{/g, "(")
-    .replace(/\}/g, ")")
-    .replace(/\n/g, "\\N");
-}
-
 function mergeFrameTexts(
-  frames: { frameNumber: number; text: string }[],
+  frames: { frameNumber: number; timestamp?: number; duration?: number; text: string; original?: string }[],
   fps = 1
 ) {
-  const events: { text: string; start: number; end: number }[] = [];
-  let current: { text: string; start: number; end: number } | null = null;
+  type MergedEvent = { text: string; original: string; start: number; end: number };
+  const events: MergedEvent[] = [];
+  let current: MergedEvent | null = null;
   for (const f of frames) {
     const t = f.text || "";
-    const startSec = (f.frameNumber - 1) / fps;
-    const endSec = f.frameNumber / fps;
+    const { start: startSec, end: endSec } = sampleSpan(f, fps);
     if (!current) {
-      current = { text: t, start: startSec, end: endSec };
+      current = { text: t, original: f.original || "", start: startSec, end: endSec };
       continue;
     }
     if (t === current.text) {
       current.end = endSec;
     } else {
       events.push(current);
-      current = { text: t, start: startSec, end: endSec };
+      current = { text: t, original: f.original || "", start: startSec, end: endSec };
     }
   }
   if (current) events.push(current);
   return events;
 }
 
+/**
+ * Collapse per-frame translations into timed segments: consecutive frames
+ * showing the same translation become one segment, blank stretches are dropped.
+ */
+export function segmentsFromFrames(
+  translatedFrames: TranslatedFrame[],
+  fps = 1
+): SubtitleSegment[] {
+  const perFrame = translatedFrames.map((frame) => {
+    const join = (key: "text" | "translatedText") =>
+      (frame.texts || [])
+        .map((t) => (t?.[key] || "").trim())
+        .filter(Boolean)
+        .join(" ");
+    return {
+      frameNumber: frame.frameNumber,
+      timestamp: frame.timestamp,
+      duration: frame.duration,
+      text: join("translatedText"),
+      original: join("text"),
+    };
+  });
+
+  return mergeFrameTexts(perFrame, fps)
+    .filter((ev) => ev.text)
+    .map((ev) => ({
+      start: ev.start,
+      end: ev.end,
+      originalText: ev.original,
+      translatedText: ev.text,
+    }));
+}
+
+// Segments for the job's placement: timed captions, or positioned lines
+export function segmentsForPlacement(
+  translatedFrames: TranslatedFrame[],
+  placement: Placement = "bottom"
+): SubtitleSegment[] {
+  return placement === "in-place"
+    ? placedSegmentsFromFrames(translatedFrames)
+    : segmentsFromFrames(translatedFrames);
+}
+
+async function probeVideoSize(inputPath: string): Promise<{ vW: number; vH: number }> {
+  const meta: any = await new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(inputPath, (err, m) => (err ? reject(err) : resolve(m)));
+  });
+  const vStream = Array.isArray(meta?.streams)
+    ? meta.streams.find((s: any) => s.codec_type === "video")
+    : null;
+  return {
+    vW: Number(vStream?.width || 1280),
+    vH: Number(vStream?.height || 720),
+  };
+}
+
 /**
  * Compose bottom-center ASS subtitles based on translated frames.
  * - one line if fits 90% width else two lines
@@ -215,24 +296,276 @@ export async function overlaySubtitlesBottomCenter(
   inputPath: string,
   translatedFrames: TranslatedFrame[],
   outputPath: string,
-  opts: SubtitleOptions = {}
+  opts: SubtitleOptions = {},
+  control: RenderControl = {}
 ) {
-  const perFrame = translatedFrames.map((frame) => {
-    const parts = (frame.texts || [])
-      .map((t) => (t?.translatedText || "").trim())
-      .filter(Boolean);
-    const mergedOne = parts.join(" ");
-    return { frameNumber: frame.frameNumber, text: mergedOne };
+  await burnSubtitleSegments(
+    inputPath,
+    segmentsFromFrames(translatedFrames),
+    outputPath,
+    opts,
+    control
+  );
+}
+
+/**
+ * Same styling as overlaySubtitlesBottomCenter, for already timed segments
+ * (e.g. after a reviewer edited them).
+ */
+export async function burnSubtitleSegments(
+  inputPath: string,
+  segments: SubtitleSegment[],
+  outputPath: string,
+  opts: SubtitleOptions = {},
+  control: RenderControl = {}
+) {
+  const { signal, onProgress } = control;
+  const outDir = path.dirname(outputPath);
+  const assContent = await buildAssSubtitles(
+    inputPath,
+    segments,
+    opts,
+    path.join(outDir, "fonts")
+  );
+
+  const assPath = path.join(outDir, "overlays.ass");
+  await fs.writeFile(assPath, assContent);
+
+  const assEsc = assPath
+    .replace(/\\/g, "\\\\")
+    .replace(/:/g, "\\:")
+    .replace(/'/g, "\\'");
+  let subFilter = `subtitles='${assEsc}'`;
+  if (ASS_FONTS_DIR) {
+    const fontsDirEsc = path
+      .resolve(ASS_FONTS_DIR)
+      .replace(/\\/g, "\\\\")
+      .replace(/:/g, "\\:")
+      .replace(/'/g, "\\'");
+    subFilter += `:fontsdir='${fontsDirEsc}'`;
+  }
+  if (
+    (opts.fontUrl && opts.fontUrl.trim().length > 0) ||
+    (ASS_FONT_URL && ASS_FONT_URL.trim().length > 0)
+  ) {
+    const fontsDir = path.join(outDir, "fonts");
+    try {
+      const info = await ensureExternalFont(
+        opts.fontUrl && opts.fontUrl.trim().length > 0
+          ? opts.fontUrl
+          : ASS_FONT_URL,
+        fontsDir
+      );
+      if (info) {
+        const fontsDirEsc = fontsDir
+          .replace(/\\/g, "\\\\")
+          .replace(/:/g, "\\:")
+          .replace(/'/g, "\\'");
+        const chosenName =
+          opts.fontName && opts.fontName.trim().length > 0
+            ? opts.fontName
+            : ASS_FONT_NAME && ASS_FONT_NAME.trim().length > 0
+            ? ASS_FONT_NAME
+            : deriveFontNameFromFilename(info.fname);
+        const fontName = chosenName.replace(/:/g, "\\:").replace(/'/g, "\\'");
+        subFilter = `subtitles='${assEsc}':fontsdir='${fontsDirEsc}':force_style='FontName=${fontName}'`;
+        if (DEBUG_COMPOSER)
+          console.log(
+            `   [debug] Using external font '${chosenName}' from ${info.fname}`
+          );
+      }
+    } catch (e: any) {
+      if (DEBUG_COMPOSER)
+        console.log(`   [warn] External font failed: ${e.message}`);
+    }
+  }
+  // In-place delogo covers blur the original text before the translation is drawn
+  const covers =
+    opts.placement === "in-place" && opts.coverStyle === "delogo"
+      ? await probeVideoSize(inputPath).then(({ vW, vH }) => delogoFilters(segments, vW, vH))
+      : [];
+  const filterComplex = [...covers, "scale=trunc(iw/2)*2:trunc(ih/2)*2", subFilter].join(",");
+
+  const run = (videoCodec: "h264_videotoolbox" | "libx264") =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(cancelledError());
+      const cmd = ffmpeg(inputPath)
+        .videoFilters(filterComplex)
+        .videoCodec(videoCodec)
+        .outputOptions(["-movflags", "+faststart"])
+        .output(outputPath);
+
+      if (videoCodec === "libx264") {
+        cmd.outputOptions(["-pix_fmt", "yuv420p"]);
+      }
+
+      cmd
+        .audioCodec(process.platform === "darwin" ? "aac_at" : "aac")
+        .audioBitrate("192k")
+        .audioChannels(2)
+        .audioFrequency(48000);
+
+      if (DEBUG_COMPOSER) cmd.outputOptions(["-loglevel", "verbose"]);
+
+      const detach = killOnAbort(cmd, signal);
+      cmd
+        .on("start", (cl: string) => {
+          if (DEBUG_COMPOSER) console.log(`   [debug] FFmpeg command: ${cl}`);
+        })
+        .on("stderr", (line: string) => {
+          if (DEBUG_COMPOSER) console.log(`   [ffmpeg] ${line}`);
+        })
+        .on("progress", (p: { percent?: number }) => {
+          if (onProgress && typeof p.percent === "number" && isFinite(p.percent)) {
+            onProgress(Math.min(100, Math.max(0, p.percent)));
+          }
+        })
+        .on("end", () => {
+          detach();
+          resolve();
+        })
+        .on("error", (err: Error) => {
+          detach();
+          reject(signal?.aborted ? cancelledError() : err);
+        })
+        .run();
+    });
+
+  try {
+    if (process.platform === "darwin") {
+      await run("h264_videotoolbox");
+    } else {
+      await run("libx264");
+    }
+  } catch {
+    throwIfAborted(signal);
+    await run(process.platform === "darwin" ? "libx264" : "h264_videotoolbox");
+  }
+}
+
+export type SubtitleTrack = {
+  segments: SubtitleSegment[];
+  language: string; // ISO 639-2 tag for the track metadata
+  title: string; // shown in player track menus
+};
+
+/**
+ * Add the subtitles as selectable tracks instead of burning them in. Video and
+ * audio are stream-copied. MP4 outputs get mov_text tracks, MKV outputs keep
+ * the styled ASS.
+ */
+export async function muxSubtitleTracks(
+  inputPath: string,
+  tracks: SubtitleTrack[],
+  outputPath: string,
+  opts: SubtitleOptions = {},
+  control: RenderControl = {}
+) {
+  const { signal, onProgress } = control;
+  const mkv = path.extname(outputPath).toLowerCase() === ".mkv";
+  const outDir = path.dirname(outputPath);
+
+  // Empty subtitle files make ffmpeg fail, so tracks without text are left out
+  const usable = tracks.filter((t) => t.segments.some((s) => s.translatedText.trim()));
+  const trackFiles: string[] = [];
+  for (const [i, track] of usable.entries()) {
+    const file = path.join(outDir, `track_${i + 1}.${mkv ? "ass" : "srt"}`);
+    const content = mkv
+      ? await buildAssSubtitles(inputPath, track.segments, opts, path.join(outDir, "fonts"))
+      : toSrt(track.segments);
+    await fs.writeFile(file, content);
+    trackFiles.push(file);
+  }
+
+  const outputOptions = ["-map", "0:v", "-map", "0:a?"];
+  trackFiles.forEach((_, i) => outputOptions.push("-map", `${i + 1}:0`));
+  outputOptions.push("-c:v", "copy", "-c:a", "copy");
+  if (trackFiles.length) outputOptions.push("-c:s", mkv ? "ass" : "mov_text");
+  usable.forEach((track, i) => {
+    outputOptions.push(
+      `-metadata:s:s:${i}`,
+      `language=${track.language}`,
+      `-metadata:s:s:${i}`,
+      `title=${track.title}`,
+      `-disposition:s:${i}`,
+      i === 0 ? "default" : "0"
+    );
   });
+  if (!mkv) outputOptions.push("-movflags", "+faststart");
 
-  const meta: any = await new Promise((resolve, reject) => {
-    ffmpeg.ffprobe(inputPath, (err, m) => (err ? reject(err) : resolve(m)));
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const cmd = ffmpeg(inputPath);
+    trackFiles.forEach((file) => cmd.input(file));
+    // Spread, so fluent-ffmpeg doesn't split titles containing a space
+    cmd.outputOptions(...outputOptions).output(outputPath);
+
+    const detach = killOnAbort(cmd, signal);
+    cmd
+      .on("start", (cl: string) => {
+        if (DEBUG_COMPOSER) console.log(`   [debug] FFmpeg command: ${cl}`);
+      })
+      .on("progress", (p: { percent?: number }) => {
+        if (onProgress && typeof p.percent === "number" && isFinite(p.percent)) {
+          onProgress(Math.min(100, Math.max(0, p.percent)));
+        }
+      })
+      .on("end", () => {
+        detach();
+        resolve();
+      })
+      .on("error", (err: Error) => {
+        detach();
+        reject(signal?.aborted ? cancelledError() : err);
+      })
+      .run();
   });
-  const vStream = Array.isArray(meta?.streams)
-    ? meta.streams.find((s: any) => s.codec_type === "video")
-    : null;
-  const vW = Number(vStream?.width || 1280);
-  const vH = Number(vStream?.height || 720);
+}
+
+/**
+ * Metrics of the fonts libass will render with: the custom font (keyed by
+ * its URL) or the system font for each family. Fonts that can't be found
+ * are left out and their lines are measured with width factors.
+ */
+async function loadLayoutFonts(
+  customFontUrl: string,
+  fontsDir: string,
+  families: string[]
+): Promise<Map<string, FontMetrics>> {
+  const metrics = new Map<string, FontMetrics>();
+  if (customFontUrl) {
+    try {
+      const info = await ensureExternalFont(customFontUrl, fontsDir);
+      const m = info && (await loadFontMetrics(info.fpath));
+      if (m) metrics.set(customFontUrl, m);
+    } catch (e: any) {
+      if (DEBUG_COMPOSER)
+        console.log(`   [warn] External font failed: ${e.message}`);
+    }
+    return metrics;
+  }
+  for (const family of new Set(families)) {
+    // Subtitles are bold, so measure the bold face when there is one
+    const file =
+      (ASS_FONTS_DIR && (await findFontInDir(ASS_FONTS_DIR, family, true))) ||
+      (await findSystemFont(family, true));
+    const m = file && (await loadFontMetrics(file));
+    if (m) metrics.set(family, m);
+  }
+  return metrics;
+}
+
+/**
+ * Build the styled ASS script for the given segments, sized to the video.
+ * This is the exact file that gets burned in.
+ */
+export async function buildAssSubtitles(
+  inputPath: string,
+  segments: SubtitleSegment[],
+  opts: SubtitleOptions = {},
+  fontsDir: string = path.join(path.dirname(inputPath), "fonts")
+): Promise<string> {
+  const { vW, vH } = await probeVideoSize(inputPath);
 
   const baseFontSize = Number(opts.baseFontSize ?? ASS_BASE_FONTSIZE);
   const boxPad = Number(opts.boxPad ?? ASS_BOX_PAD);
@@ -291,63 +624,47 @@ export async function overlaySubtitlesBottomCenter(
     useRounded
       ? `Style: Default,Arial,${baseFontSize},${textAss},&H000000FF,&H00000000,&HFF000000,-1,0,0,0,100,100,0,0,1,0,0,2,10,10,${marginV},1`
       : `Style: Default,Arial,${baseFontSize},${textAss},&H000000FF,&H00000000,${backAss},-1,0,0,0,100,100,0,0,3,0,0,2,10,10,${marginV},1`,
+    // In-place lines: no box, centred on their \pos
+    `Style: Placed,Arial,${baseFontSize},${textAss},&H000000FF,&H00000000,&HFF000000,-1,0,0,0,100,100,0,0,1,0,0,5,0,0,0,1`,
     "",
     "[Events]",
     "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
   ];
 
-  const decided = perFrame.map((pf) => {
-    const s = pf.text;
-    if (!s) return { frameNumber: pf.frameNumber, text: "" };
-    const cjk = isCJK(s);
-    const factor = cjk ? cjkFactor : latinFactor;
+  const factors = { cjk: cjkFactor, latin: latinFactor };
+  const estimate = (text: string) => estimateTextWidth(text, baseFontSize, factors);
+  // A custom font applies to every line via force_style; otherwise pick a
+  // Noto font that covers the line's script
+  const customFontUrl = opts.fontUrl?.trim() || ASS_FONT_URL.trim();
+  const metrics = await loadLayoutFonts(
+    customFontUrl,
+    fontsDir,
+    segments.map((seg) => fallbackFont(seg.translatedText) ?? "Arial")
+  );
+  const measurer = (font: string | undefined) => {
+    const m = customFontUrl ? metrics.get(customFontUrl) : metrics.get(font ?? "Arial");
+    return m
+      ? (line: string) => m.measure(line, baseFontSize, estimate)
+      : estimate;
+  };
+
+  // In-place jobs position every segment with a box; the rest stay captions
+  const inPlace = opts.placement === "in-place";
+  const placed = inPlace ? segments.filter((seg) => seg.box) : [];
+  const captions = inPlace ? segments.filter((seg) => !seg.box) : segments;
+
+  const merged = captions.map((seg) => {
+    const s = (seg.translatedText || "").trim();
+    const font = customFontUrl ? undefined : fallbackFont(s);
+    const measure = measurer(font);
+    if (!s) return { start: seg.start, end: seg.end, lines: [] as string[], font, measure };
     const maxWidth = Math.floor(vW * maxWidthFraction) - padX * 2;
-    let out = s;
-    if (!forceOneLine) {
-      const enumMatch = /^\s*([0-9]+[\.．、\)]\s*)/.exec(s);
-      const prefix = enumMatch ? enumMatch[0] : "";
-      const rest = s.slice(prefix.length);
-      if (cjk) {
-        const tokens = rest.split("");
-        let line = "";
-        const lines: string[] = [];
-        for (const ch of tokens) {
-          const cand = line + ch;
-          const est = cand.length * factor * baseFontSize;
-          if (est > maxWidth && line) {
-            lines.push(line);
-            line = ch;
-          } else {
-            line = cand;
-          }
-        }
-        if (line) lines.push(line);
-        if (lines.length > 0) lines[0] = prefix + lines[0];
-        out = lines.join("\n");
-      } else {
-        const words = rest.split(/\s+/).filter(Boolean);
-        let line = "";
-        const lines: string[] = [];
-        for (const w of words) {
-          const cand = line ? line + " " + w : w;
-          const est = cand.length * factor * baseFontSize;
-          if (est > maxWidth && line) {
-            lines.push(line);
-            line = w;
-          } else {
-            line = cand;
-          }
-        }
-        if (line) lines.push(line);
-        if (lines.length > 0) lines[0] = (prefix + lines[0]).trim();
-        out = lines.join("\n");
-      }
-    }
-    return { frameNumber: pf.frameNumber, text: out };
+    // Breaks fall between words (Intl.Segmenter handles CJK and Thai), and
+    // an enumeration like "1. " stays at the start of the first line
+    const lines = forceOneLine ? [s] : wrapText(s, maxWidth, measure);
+    return { start: seg.start, end: seg.end, lines, font, measure };
   });
 
-  const merged = mergeFrameTexts(decided, 1);
-
   const events: string[] = [];
   const posX = Math.round(vW / 2);
   const posY = Math.round(vH - marginV);
@@ -361,22 +678,21 @@ export async function overlaySubtitlesBottomCenter(
   const backParts = assColorParts(backAss);
   const textParts = assColorParts(textAss);
   for (const ev of merged) {
-    if (!ev.text) continue;
+    if (ev.lines.length === 0) continue;
     const start = assTime(ev.start);
     const end = assTime(ev.end);
-    const t = escAss(ev.text);
+    const lines = ev.lines;
+    const t = lines.map((ln) => escapeAssText(directionalLine(ln))).join("\\N");
+    const fontTag = ev.font ? `\\fn${ev.font}` : "";
 
     // Compute box size based on lines
-    const lines = t.split("\\N");
     const lineHeights = lines.map(() => baseFontSize);
     const lineGap = Math.round(baseFontSize * 0.2); // Increase gap slightly for better spacing
     const contentH = lineHeights.reduce(
       (acc, h, i) => acc + h + (i ? lineGap : 0),
       0
     );
-    const estWidths = lines.map(
-      (ln) => ln.length * (isCJK(ln) ? cjkFactor : latinFactor) * baseFontSize
-    );
+    const estWidths = lines.map(ev.measure);
     const contentW = Math.max(1, Math.round(Math.max(...estWidths)));
     const boxW = Math.round(contentW + padX * 2);
     const boxH = Math.round(contentH + padTop + padBottom);
@@ -423,7 +739,7 @@ export async function overlaySubtitlesBottomCenter(
       // Apply blur to background shape if bgBlur is specified
       const blurTag = bgBlur > 0 ? `\\blur${bgBlur}` : "";
       const shapeDialogue = `{\\an7\\pos(${boxLeft},${boxTop})${blurTag}\\p1\\c&H${backParts.c}&\\alpha&H${backParts.a}&\\bord0}${shapePath}{\\p0}`;
-      const textDialogue = `{\\an2\\pos(${posX},${posY})\\fs${baseFontSize}\\b1\\bord0\\c&H${textParts.c}&\\alpha&H${textParts.a}&}${t}`;
+      const textDialogue = `{\\an2\\pos(${posX},${posY})${fontTag}\\fs${baseFontSize}\\b1\\bord0\\c&H${textParts.c}&\\alpha&H${textParts.a}&}${t}`;
 
       // Layer 0 for background, layer 1 for text to ensure text is on top
       events.push(
@@ -433,99 +749,73 @@ export async function overlaySubtitlesBottomCenter(
         `Dialogue: 1,${start},${end},Default,,0,0,0,,${textDialogue}`
       );
     } else {
-      const textTag = `{\\an2\\pos(${posX},${posY})\\fs${baseFontSize}\\bord${boxPad}\\b1}`;
+      const textTag = `{\\an2\\pos(${posX},${posY})${fontTag}\\fs${baseFontSize}\\bord${boxPad}\\b1}`;
       events.push(`Dialogue: 0,${start},${end},Default,,0,0,0,,${textTag}${t}`);
     }
   }
 
-  const outDir = path.dirname(outputPath);
-  const assPath = path.join(outDir, "overlays.ass");
-  const assContent = header.concat(events).join("\n");
-  await fs.writeFile(assPath, assContent);
-
-  const assEsc = assPath
-    .replace(/\\/g, "\\\\")
-    .replace(/:/g, "\\:")
-    .replace(/'/g, "\\'");
-  let subFilter = `subtitles='${assEsc}'`;
-  if (
-    (opts.fontUrl && opts.fontUrl.trim().length > 0) ||
-    (ASS_FONT_URL && ASS_FONT_URL.trim().length > 0)
-  ) {
-    const fontsDir = path.join(outDir, "fonts");
-    try {
-      const info = await ensureExternalFont(
-        opts.fontUrl && opts.fontUrl.trim().length > 0
-          ? opts.fontUrl
-          : ASS_FONT_URL,
-        fontsDir
-      );
-      if (info) {
-        const fontsDirEsc = fontsDir
-          .replace(/\\/g, "\\\\")
-          .replace(/:/g, "\\:")
-          .replace(/'/g, "\\'");
-        const chosenName =
-          opts.fontName && opts.fontName.trim().length > 0
-            ? opts.fontName
-            : ASS_FONT_NAME && ASS_FONT_NAME.trim().length > 0
-            ? ASS_FONT_NAME
-            : deriveFontNameFromFilename(info.fname);
-        const fontName = chosenName.replace(/:/g, "\\:").replace(/'/g, "\\'");
-        subFilter = `subtitles='${assEsc}':fontsdir='${fontsDirEsc}':force_style='FontName=${fontName}'`;
-        if (DEBUG_COMPOSER)
-          console.log(
-            `   [debug] Using external font '${chosenName}' from ${info.fname}`
-          );
+  if (placed.length > 0) {
+    const coverStyle = opts.coverStyle ?? "patch";
+    const colors =
+      coverStyle === "patch" ? await sampleCoverColors(inputPath, placed, vW, vH) : [];
+    placed.forEach((seg, i) => {
+      const text = seg.translatedText.trim();
+      if (!text || !seg.box) return;
+      const box = seg.box;
+      const start = assTime(seg.start);
+      const end = assTime(seg.end);
+
+      let fill = "";
+      if (coverStyle === "patch") {
+        const cover = coverRegion(box, vW, vH);
+        const c = colors[i] ? assColorParts(hexToAss(colors[i]!)) : backParts;
+        const shape = `m 0 0 l ${cover.width} 0 ${cover.width} ${cover.height} 0 ${cover.height}`;
+        events.push(
+          `Dialogue: 0,${start},${end},Placed,,0,0,0,,{\\an7\\pos(${cover.x},${cover.y})\\p1\\c&H${c.c}&\\alpha&H${c.a}&\\bord0}${shape}{\\p0}`
+        );
+        fill = colors[i] ?? "";
       }
-    } catch (e: any) {
-      if (DEBUG_COMPOSER)
-        console.log(`   [warn] External font failed: ${e.message}`);
-    }
-  }
-  const filterComplex = `scale=trunc(iw/2)*2:trunc(ih/2)*2,${subFilter}`;
-
-  const run = (videoCodec: "h264_videotoolbox" | "libx264") =>
-    new Promise<void>((resolve, reject) => {
-      const cmd = ffmpeg(inputPath)
-        .videoFilters(filterComplex)
-        .videoCodec(videoCodec)
-        .outputOptions(["-movflags", "+faststart"])
-        .output(outputPath);
 
-      if (videoCodec === "libx264") {
-        cmd.outputOptions(["-pix_fmt", "yuv420p"]);
+      // Start at the original line height and shrink to the box width; past
+      // 60% of that size, squeeze horizontally instead so it stays legible
+      const font = customFontUrl ? undefined : fallbackFont(text);
+      const height = Math.max(8, Math.round(box.height));
+      const natural = (measurer(font)(text) * height) / baseFontSize;
+      let fs = height;
+      let scaleX = 100;
+      if (natural > box.width) {
+        fs = Math.max(Math.round(height * 0.6), Math.floor((height * box.width) / natural));
+        const scaled = (natural * fs) / height;
+        if (scaled > box.width) scaleX = Math.max(1, Math.floor((100 * box.width) / scaled));
       }
 
-      cmd
-        .audioCodec(process.platform === "darwin" ? "aac_at" : "aac")
-        .audioBitrate("192k")
-        .audioChannels(2)
-        .audioFrequency(48000);
-
-      if (DEBUG_COMPOSER) cmd.outputOptions(["-loglevel", "verbose"]);
-
-      cmd
-        .on("start", (cl: string) => {
-          if (DEBUG_COMPOSER) console.log(`   [debug] FFmpeg command: ${cl}`);
-        })
-        .on("stderr", (line: string) => {
-          if (DEBUG_COMPOSER) console.log(`   [ffmpeg] ${line}`);
-        })
-        .on("end", () => resolve())
-        .on("error", (err: Error) => reject(err))
-        .run();
+      // Without a chosen colour, pick black or white against the patch;
+      // over unpatched video, an outline keeps the text readable
+      const color = opts.textColorHex || !fill ? textParts : assColorParts(hexToAss(contrastColor(fill)));
+      const outline = fill ? "\\bord0" : `\\bord${Math.max(1, Math.round(fs * 0.06))}\\3c&H000000&`;
+      const tags = [
+        "\\an5",
+        `\\pos(${Math.round(box.x + box.width / 2)},${Math.round(box.y + box.height / 2)})`,
+        font ? `\\fn${font}` : "",
+        `\\fs${fs}`,
+        scaleX < 100 ? `\\fscx${scaleX}` : "",
+        outline,
+        `\\c&H${color.c}&\\alpha&H${color.a}&`,
+      ].join("");
+      events.push(
+        `Dialogue: 1,${start},${end},Placed,,0,0,0,,{${tags}}${escapeAssText(directionalLine(text))}`
+      );
     });
-
-  try {
-    if (process.platform === "darwin") {
-      await run("h264_videotoolbox");
-    } else {
-      await run("libx264");
-    }
-  } catch {
-    await run(process.platform === "darwin" ? "libx264" : "h264_videotoolbox");
   }
+
+  return header.concat(events).join("\n");
+}
+
+// Black or white, whichever reads better on the given #RRGGBB background
+function contrastColor(hex: string): string {
+  const n = parseInt(hex.replace(/^#/, ""), 16);
+  const luma = 0.299 * ((n >> 16) & 255) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255);
+  return luma > 150 ? "#000000" : "#FFFFFF";
 }
 
 // Preview renderer: outputs a single PNG using the same ASS styling
@@ -569,7 +859,12 @@ export async function renderSubtitlesPreview(
     frameNumber: 1,
     texts: frame.texts,
   } as TranslatedFrame;
-  await overlaySubtitlesBottomCenter(tempBase, [shifted], tempVideoOut, opts);
+  await burnSubtitleSegments(
+    tempBase,
+    segmentsForPlacement([shifted], opts.placement),
+    tempVideoOut,
+    opts
+  );
   await new Promise<void>((resolve, reject) => {
     ffmpeg(tempVideoOut)
       .seekInput(0.5)
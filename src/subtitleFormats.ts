@@ -0,0 +1,90 @@
+import type { SubtitleSegment } from './types.js';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { contentType: string; extension: string }> = {
+  srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' },
+  vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt' },
+  ass: { contentType: 'text/x-ssa; charset=utf-8', extension: 'ass' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+export function isSubtitleFormat(value: string): value is SubtitleFormat {
+  return Object.prototype.hasOwnProperty.call(SUBTITLE_FORMATS, value);
+}
+
+// HH:MM:SS<sep>mmm (SRT uses ',', WebVTT uses '.')
+function cueTime(sec: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(sec * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const rest = ms % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(
+    2,
+    '0'
+  )}${separator}${String(rest).padStart(3, '0')}`;
+}
+
+// A blank line ends a cue in both formats, so keep cue text free of them
+function cueLines(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function cues(segments: SubtitleSegment[]) {
+  return segments
+    .map((seg) => ({ ...seg, text: cueLines(seg.translatedText || '') }))
+    .filter((seg) => seg.text && seg.end > seg.start);
+}
+
+export function toSrt(segments: SubtitleSegment[]): string {
+  return cues(segments)
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${cueTime(cue.start, ',')} --> ${cueTime(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+export function toVtt(segments: SubtitleSegment[]): string {
+  const body = cues(segments)
+    .map(
+      (cue) => `${cueTime(cue.start, '.')} --> ${cueTime(cue.end, '.')}\n${escapeVtt(cue.text)}\n`
+    )
+    .join('\n');
+  return body ? `WEBVTT\n\n${body}` : 'WEBVTT\n';
+}
+
+// H:MM:SS.cc (ASS counts centiseconds). Times are kept to the millisecond,
+// so round those rather than sec * 100 (1.005 * 100 is 100.49999...)
+export function assTime(sec: number): string {
+  const cs = Math.max(0, Math.round(Math.round(sec * 1000) / 10));
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  const c = cs % 100;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(c).padStart(
+    2,
+    '0'
+  )}`;
+}
+
+// Dialogue text shown as typed: braces would open an override block, and a
+// backslash could start \N, \n or \h, so braces become parentheses and a
+// word joiner follows each backslash. Newlines become ASS line breaks.
+export function escapeAssText(text: string): string {
+  return String(text || '')
+    .replace(/\\/g, '\\\u2060')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\r\n?|\n/g, '\\N');
+}
@@ -3,16 +3,67 @@ import path from "path";
 import dotenv from "dotenv";
 import { extractFrames, getVideoDuration } from "./frameExtractor.js";
 import { detectTextInFrames } from "./ocrService.js";
-import { translateTexts, translateSequence } from "./translationService.js";
 import {
-  overlaySubtitlesBottomCenter,
+  translateTexts,
+  translateSequence,
+  checkGlossaryCompliance,
+} from "./translationService.js";
+import {
+  burnSubtitleSegments,
+  muxSubtitleTracks,
+  segmentsForPlacement,
   TranslatedFrame,
   SubtitleOptions,
+  Placement,
+  RenderControl,
   renderSubtitlesPreview,
 } from "./subtitleComposer.js";
+import type { DetectionFrame, PipelineStage, ProgressUpdate, SubtitleSegment } from "./types.js";
+import { isAbortError, throwIfAborted } from "./abort.js";
+import {
+  findLanguage,
+  matchesLanguageScripts,
+  resolveSourceLanguage,
+  trackLanguageTag,
+} from "./languages.js";
+import { loadGlossaryTerms } from "./glossary.js";
+import { captionRegion, refineSegmentTiming } from "./timingRefiner.js";
+import { lineConfidence, stabilizeLines } from "./lineTracking.js";
+import type { Glossary, GlossaryTerms } from "./glossary.js";
+import { loadOcrCache, ocrCacheScope, storeOcrCache } from "./ocrCache.js";
+import type { LanguageInfo } from "./languages.js";
 
 dotenv.config();
 
+/**
+ * Per-run hooks for a background job (cancellation, progress reporting)
+ */
+export type PipelineControl = {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => void;
+  videoHash?: string; // SHA-256 of the input; enables the OCR cache
+};
+
+// Share of overall progress (0-100) covered by each pipeline stage
+const STAGE_RANGES: Record<PipelineStage, [number, number]> = {
+  extracting: [0, 10],
+  ocr: [10, 60],
+  grouping: [60, 62],
+  translating: [62, 75],
+  encoding: [75, 99],
+};
+
+function stageProgress(
+  stage: PipelineStage,
+  fraction: number,
+  current?: number,
+  total?: number
+): ProgressUpdate {
+  const [from, to] = STAGE_RANGES[stage];
+  const f = Math.min(1, Math.max(0, fraction));
+  return { stage, progress: Math.round(from + (to - from) * f), current, total };
+}
+
 function normalizeCJKSpacing(s: string): string {
   if (!s) return s;
   const hasCJK = /[\u3400-\u9fff\uf900-\ufaff]/.test(s);
@@ -26,7 +77,7 @@ function normalizeCJKSpacing(s: string): string {
 export async function previewVideoAss(
   videoPath: string,
   targetLanguage: string,
-  options?: SubtitleOptions & { previewAtSeconds?: number }
+  options?: SubtitleOptions & { previewAtSeconds?: number; sourceLanguage?: string }
 ) {
   const absoluteVideoPath = path.resolve(videoPath);
   const workDir = path.resolve(`./temp/job_${Date.now()}`);
@@ -46,11 +97,11 @@ export async function previewVideoAss(
       ? Math.floor(options.previewAtSeconds)
       : null;
   if (at !== null) {
-    // Choose nearest frame to the requested second by frameNumber proximity
+    // Choose the frame sampled nearest to the requested second
     let bestIdx = 0;
     let bestDist = Infinity;
     for (let i = 0; i < frames.length; i++) {
-      const dist = Math.abs(frames[i].frameNumber - 1 - at);
+      const dist = Math.abs(frames[i].timestamp - at);
       if (dist < bestDist) {
         bestDist = dist;
         bestIdx = i;
@@ -61,8 +112,12 @@ export async function previewVideoAss(
 
   // 3) OCR forward from startIndex to find a frame with meaningful text; then fallback backward
   const hasMeaningful = (s: string) => /[\p{L}\p{N}\u3400-\u9fff]/u.test(s);
+  const knownSource =
+    options?.sourceLanguage && options.sourceLanguage !== "auto"
+      ? findLanguage(options.sourceLanguage)
+      : undefined;
   const tryIndex = async (idx: number) => {
-    const detections = await detectTextInFrames([frames[idx]]);
+    const detections = await detectTextInFrames([frames[idx]], { language: knownSource });
     const det = detections[0];
     if (!det?.texts?.length) return null;
     const grouped = groupTextsIntoLines(det as any);
@@ -103,7 +158,8 @@ export async function previewVideoAss(
   );
   const translationMap: Record<string, string> = await translateTexts(
     unique,
-    targetLanguage
+    targetLanguage,
+    { sourceLanguage: (knownSource ?? resolveSourceLanguage("auto", unique))?.code }
   );
   const translatedFrame: TranslatedFrame = {
     frameNumber: (chosen as any).det.frameNumber,
@@ -134,19 +190,26 @@ type OCRBox = {
   height: number;
   text: string;
   fontSize?: number;
+  confidence?: number;
 };
 
 type FrameDet = {
   framePath: string;
   frameName: string;
   frameNumber: number;
+  timestamp: number;
+  duration: number;
   texts: OCRBox[];
+  reusedFrom?: number;
+  error?: string;
 };
 
 type GroupedFrame = {
   framePath: string;
   frameName: string;
   frameNumber: number;
+  timestamp: number;
+  duration: number;
   texts: {
     text: string;
     x: number;
@@ -154,6 +217,7 @@ type GroupedFrame = {
     width: number;
     height: number;
     fontSize: number;
+    confidence?: number;
   }[];
 };
 
@@ -198,19 +262,25 @@ function groupTextsIntoLines(frame: FrameDet): GroupedFrame {
       Math.max(...sorted.map((i) => i.fontSize || Math.round(i.height * 0.8)))
     );
     const original = sorted.map((i) => i.text).join(" ");
-    return { text: original, x: minX, y: minY, width, height, fontSize };
+    const confidence = lineConfidence(sorted);
+    return { text: original, x: minX, y: minY, width, height, fontSize, confidence };
   });
 
   return {
     framePath: frame.framePath,
     frameName: frame.frameName,
     frameNumber: frame.frameNumber,
+    timestamp: frame.timestamp,
+    duration: frame.duration,
     texts: groups,
   };
 }
 
-function filterSubtitleLike(frames: GroupedFrame[]): GroupedFrame[] {
+function filterSubtitleLike(frames: GroupedFrame[], placement: Placement = 'bottom'): GroupedFrame[] {
   const filterOff = (process.env.SUBTITLE_FILTER_OFF || '0') === '1';
+  // In-place jobs translate labels anywhere in the frame, so only text
+  // length and persistence apply
+  const inPlace = placement === 'in-place';
   if (filterOff) return frames;
   const region = (process.env.SUBTITLE_REGION || 'any').toLowerCase();
   const regionFrac = Math.min(1, Math.max(0.05, Number(process.env.SUBTITLE_REGION_FRACTION || 0.5)));
@@ -251,31 +321,36 @@ function filterSubtitleLike(frames: GroupedFrame[]): GroupedFrame[] {
         const passesText = charCount >= minChars && wordCount >= minWords;
         const passesAspect = aspect >= minAspect;
 
-        return inRegion && passesText && passesAspect;
+        return inPlace ? passesText : inRegion && passesText && passesAspect;
       })
       .sort((a, b) => b.width - a.width)
-      .slice(0, maxLinesPerFrame);
+      .slice(0, inPlace ? undefined : maxLinesPerFrame);
 
     return { ...frame, texts: filtered } as GroupedFrame;
   });
 
   if (!requirePersistence) return prelim;
 
-  const occurrences = new Map<string, number[]>();
+  const occurrences = new Map<string, GroupedFrame[]>();
   for (const f of prelim) {
     for (const t of f.texts) {
       if (!t.text) continue;
       const arr = occurrences.get(t.text) || [];
-      arr.push(f.frameNumber);
+      arr.push(f);
       occurrences.set(t.text, arr);
     }
   }
 
+  // Keep text that stays on screen for more than a second over consecutive
+  // samples; with fixed 1 fps sampling that means two frames in a row
   const keepTexts = new Set<string>();
   occurrences.forEach((framesArr, text) => {
-    const sorted = framesArr.slice().sort((a, b) => a - b);
-    for (let i = 1; i < sorted.length; i++) {
-      if (sorted[i] === sorted[i - 1] + 1) {
+    const sorted = framesArr.slice().sort((a, b) => a.frameNumber - b.frameNumber);
+    let runStart = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      if (i > 0 && sorted[i].frameNumber !== sorted[i - 1].frameNumber + 1) runStart = i;
+      const span = sorted[i].timestamp + sorted[i].duration - sorted[runStart].timestamp;
+      if (span > 1) {
         keepTexts.add(text);
         break;
       }
@@ -290,166 +365,645 @@ function filterSubtitleLike(frames: GroupedFrame[]): GroupedFrame[] {
   return finalFrames;
 }
 
-export async function translateVideoAss(
+/**
+ * Map one language's progress onto a multi-language parent job: the shared
+ * analysis stages keep their range and the per-language stages are split
+ * evenly between languages.
+ */
+export function scaleLanguageProgress(
+  update: ProgressUpdate,
+  index: number,
+  count: number
+): ProgressUpdate {
+  const from = STAGE_RANGES.translating[0];
+  const to = STAGE_RANGES.encoding[1];
+  const within = Math.min(1, Math.max(0, (update.progress - from) / (to - from)));
+  const progress = from + ((to - from) * (index + within)) / Math.max(1, count);
+  return { ...update, progress: Math.round(progress), current: index + 1, total: count };
+}
+
+// Saved next to each rendered output so the job can be re-rendered later
+const RENDER_STATE_FILE = "render.json";
+
+// Job options: subtitle styling plus pipeline switches
+export type TranslateOptions = SubtitleOptions & {
+  subtitlesOnly?: boolean; // skip the burn-in encode, only produce subtitle files
+  outputMode?: OutputMode;
+  container?: "mp4" | "mkv"; // soft/multi-track output container
+  glossaryId?: string; // customer glossary applied when translating
+  glossary?: Glossary; // copy of that glossary, taken when the job was created
+  sourceLanguage?: string; // language of the on-screen text; 'auto' (default) detects it
+};
+
+// burn: render into the picture; soft: one selectable subtitle track;
+// multi-track: one track per language on a multi-language job
+export type OutputMode = "burn" | "soft" | "multi-track";
+
+export const OUTPUT_MODES: OutputMode[] = ["burn", "soft", "multi-track"];
+
+/**
+ * Produce the output video for the given subtitle tracks, either by burning
+ * the first one in or by muxing them all as soft tracks. Returns its path.
+ */
+async function writeVideoOutput(
   videoPath: string,
-  targetLanguage: string,
-  options?: SubtitleOptions
-) {
-  const startTime = Date.now();
+  tracks: { segments: SubtitleSegment[]; targetLanguage: string }[],
+  outputDir: string,
+  name: string,
+  options: TranslateOptions,
+  control: { signal?: AbortSignal; onProgress?: (percent: number) => void }
+): Promise<string> {
+  if ((options.outputMode || "burn") === "burn") {
+    const outputPath = path.resolve(outputDir, `${name}.mp4`);
+    await burnSubtitleSegments(videoPath, tracks[0].segments, outputPath, options, control);
+    return outputPath;
+  }
+
+  const container = options.container === "mkv" ? "mkv" : "mp4";
+  const outputPath = path.resolve(outputDir, `${name}.${container}`);
+  await muxSubtitleTracks(
+    videoPath,
+    tracks.map((track) => ({
+      segments: track.segments,
+      language: trackLanguageTag(track.targetLanguage, container),
+      title: findLanguage(track.targetLanguage)?.name ?? track.targetLanguage,
+    })),
+    outputPath,
+    options,
+    control
+  );
+  return outputPath;
+}
+
+export type RenderState = {
+  videoPath: string;
+  targetLanguage: string;
+  options: TranslateOptions;
+  revision: number;
+  outputPath?: string; // unset when the job only produced subtitles
+  detections: GroupedFrame[];
+  translatedFrames: TranslatedFrame[];
+  segments?: SubtitleSegment[]; // set once a reviewer edits the segments
+  glossary?: GlossaryTerms; // terms the job was translated with, to flag edits too
+  // Segments with sub-second timing, for the placement they were built for
+  timing?: { placement: Placement; segments: SubtitleSegment[] };
+};
+
+export async function loadRenderState(dir: string): Promise<RenderState | null> {
+  try {
+    const raw = await fs.readFile(path.join(dir, RENDER_STATE_FILE), "utf-8");
+    return JSON.parse(raw) as RenderState;
+  } catch {
+    return null;
+  }
+}
+
+async function saveRenderState(dir: string, state: RenderState): Promise<void> {
+  await fs.writeFile(path.join(dir, RENDER_STATE_FILE), JSON.stringify(state));
+}
+
+// Edited segments win over the ones derived from the translated frames
+export function getRenderSegments(
+  state: RenderState,
+  placement: Placement = state.options.placement ?? "bottom"
+): SubtitleSegment[] {
+  if (state.segments) return state.segments;
+  if (state.timing?.placement === placement) return state.timing.segments;
+  return segmentsForPlacement(state.translatedFrames, placement);
+}
+
+export async function saveRenderSegments(
+  dir: string,
+  segments: SubtitleSegment[]
+): Promise<void> {
+  const state = await loadRenderState(dir);
+  if (!state) throw new Error("Render state not found");
+  await saveRenderState(dir, { ...state, segments });
+}
+
+export type VideoAnalysis = {
+  absoluteVideoPath: string;
+  workDir: string;
+  framesProcessed: number;
+  ocrCallsSaved: number; // frames that reused a similar frame's OCR results
+  ocrFailedFrames: number; // frames with no OCR results after retries
+  ocrCached: boolean; // extraction and OCR came from the cache
+  // Whether the frame images are on disk at each framePath. An OCR cache hit
+  // skips extraction, so they are not (framePath is empty); later steps read
+  // pixels from the video itself instead.
+  framesExtracted: boolean;
+  subtitleFrames: GroupedFrame[];
+  sourceLanguage?: string; // ISO 639-1, given or detected; unset if unknown
+};
+
+function progressReporter(onProgress?: PipelineControl["onProgress"]) {
+  return (
+    stage: PipelineStage,
+    fraction: number,
+    current?: number,
+    total?: number
+  ) => onProgress?.(stageProgress(stage, fraction, current, total));
+}
+
+// Steps 1-2: sample frames and OCR them
+async function extractAndDetect(
+  absoluteVideoPath: string,
+  workDir: string,
+  language: LanguageInfo | undefined,
+  signal: AbortSignal | undefined,
+  report: ReturnType<typeof progressReporter>
+): Promise<FrameDet[]> {
+  console.log("🎞️  Step 1: Extracting frames...");
+  report("extracting", 0);
+  await fs.mkdir(`${workDir}/frames`, { recursive: true });
+  const frames = await extractFrames(
+    absoluteVideoPath,
+    `${workDir}/frames`,
+    signal
+  );
+  console.log(`   ✅ Extracted ${frames.length} frames`);
+  report("extracting", 1, frames.length, frames.length);
+  const durationSec = Math.round(await getVideoDuration(absoluteVideoPath));
+  const SKIP_INTRO_SECONDS = Number(process.env.SKIP_INTRO_SECONDS || 0);
+  const SKIP_OUTRO_SECONDS = Number(process.env.SKIP_OUTRO_SECONDS || 0);
+  const filteredFrames = frames.filter((f) => {
+    const t = f.timestamp;
+    if (t < SKIP_INTRO_SECONDS) return false;
+    if (
+      SKIP_OUTRO_SECONDS > 0 &&
+      t >= Math.max(0, durationSec - SKIP_OUTRO_SECONDS)
+    )
+      return false;
+    return true;
+  });
+
+  console.log("🔍 Step 2: Detecting text with OCR...");
+  report("ocr", 0, 0, filteredFrames.length);
+  const detections: FrameDet[] = await detectTextInFrames(filteredFrames, {
+    signal,
+    onFrame: (done, total) => report("ocr", done / total, done, total),
+    language,
+  });
+  console.log(
+    `   ✅ Detected text in ${
+      detections.filter((d) => d.texts.length > 0).length
+    } frames`
+  );
+  return detections;
+}
+
+/**
+ * Step 3: group each frame's OCR words into lines and keep the subtitle-like
+ * ones. Without a given source language it is detected from the text, and
+ * the detected language's script filter is applied.
+ */
+export function groupDetections(
+  detections: FrameDet[],
+  options: Pick<TranslateOptions, "sourceLanguage" | "placement"> = {}
+): { subtitleFrames: GroupedFrame[]; sourceLanguage?: LanguageInfo } {
+  const autoSource = !options.sourceLanguage || options.sourceLanguage === "auto";
+  const sourceLanguage = autoSource
+    ? resolveSourceLanguage("auto", detections.flatMap((d) => d.texts.map((t) => t.text)))
+    : findLanguage(options.sourceLanguage!);
+  if (autoSource && sourceLanguage) {
+    console.log(`   🌐 Detected source language: ${sourceLanguage.name}`);
+    // Same per-language script filter OCR applies when the language is given
+    detections = detections.map((d) => ({
+      ...d,
+      texts: d.texts.filter((t) => matchesLanguageScripts(t.text, sourceLanguage)),
+    }));
+  }
+
+  console.log("📝 Step 3: Grouping OCR words into lines...");
+  // One canonical reading per on-screen line, so OCR flicker doesn't split events
+  const groupedFrames: GroupedFrame[] = stabilizeLines(detections.map(groupTextsIntoLines));
+  const subtitleFrames: GroupedFrame[] = filterSubtitleLike(groupedFrames, options.placement);
+  return { subtitleFrames, sourceLanguage };
+}
+
+/**
+ * Language-independent half of the pipeline: extract frames, OCR, group
+ * words into lines and keep subtitle-like lines. Run once per video.
+ */
+export async function analyzeVideoAss(
+  videoPath: string,
+  control: PipelineControl = {},
+  options: Pick<TranslateOptions, "sourceLanguage" | "placement"> = {}
+): Promise<VideoAnalysis> {
+  const { signal } = control;
+  const report = progressReporter(control.onProgress);
   const absoluteVideoPath = path.resolve(videoPath);
   const workDir = path.resolve(`./temp/job_${Date.now()}`);
 
   try {
     console.log("📁 Creating working directory...");
     await fs.mkdir(workDir, { recursive: true });
-    await fs.mkdir(`${workDir}/frames`, { recursive: true });
-
-    console.log("🎞️  Step 1: Extracting frames (1 fps)...");
-    const frames = await extractFrames(absoluteVideoPath, `${workDir}/frames`);
-    console.log(`   ✅ Extracted ${frames.length} frames`);
-    const durationSec = Math.round(await getVideoDuration(absoluteVideoPath));
-    const SKIP_INTRO_SECONDS = Number(process.env.SKIP_INTRO_SECONDS || 0);
-    const SKIP_OUTRO_SECONDS = Number(process.env.SKIP_OUTRO_SECONDS || 0);
-    const filteredFrames = frames.filter((f: any) => {
-      const t = f.frameNumber - 1;
-      if (t < SKIP_INTRO_SECONDS) return false;
-      if (
-        SKIP_OUTRO_SECONDS > 0 &&
-        t >= Math.max(0, durationSec - SKIP_OUTRO_SECONDS)
-      )
-        return false;
-      return true;
-    });
-
-    console.log("🔍 Step 2: Detecting text with OCR...");
-    const detections: FrameDet[] = await detectTextInFrames(filteredFrames);
-    console.log(
-      `   ✅ Detected text in ${
-        detections.filter((d) => d.texts.length > 0).length
-      } frames`
-    );
 
-    console.log("📝 Step 3: Grouping OCR words into lines...");
-    const groupedFrames: GroupedFrame[] = detections.map(groupTextsIntoLines);
-    const subtitleFrames: GroupedFrame[] = filterSubtitleLike(groupedFrames);
-
-    const stepMode = process.env.STEP_MODE === "1";
-    let translatedFrames: TranslatedFrame[];
-    let textsDetectedCount = 0;
-    let translationsAppliedCount = 0;
-    if (stepMode) {
-      const perFrame = subtitleFrames
-        .map((f) => ({
-          frameNumber: f.frameNumber,
-          text: (f.texts || [])
-            .map((t) => (t.text || "").trim())
-            .filter(Boolean)
-            .join(" ")
-            .trim(),
-        }))
-        .filter((x) => x.text.length > 0);
-
-      // Ordered unique sequence (preserve first occurrence)
-      const seen = new Set<string>();
-      const sequence = perFrame
-        .map((x) => x.text)
-        .filter((t) => {
-          if (seen.has(t)) return false;
-          seen.add(t);
-          return true;
-        });
-
-      if (process.env.DEBUG_TRANSLATION === "1") {
-        try {
-          await fs.writeFile(path.resolve(workDir, "segments_raw.json"), JSON.stringify(perFrame, null, 2));
-          await fs.writeFile(path.resolve(workDir, "sequence_ordered.json"), JSON.stringify(sequence, null, 2));
-        } catch {}
+    // A given source language steers OCR; 'auto' detects it from the results
+    const autoSource = !options.sourceLanguage || options.sourceLanguage === "auto";
+    const givenSource = autoSource ? undefined : findLanguage(options.sourceLanguage!);
+
+    // Repeat uploads of the same bytes reuse the cached extraction and OCR
+    const cacheScope = control.videoHash ? ocrCacheScope(control.videoHash, givenSource) : undefined;
+    const cached = cacheScope ? await loadOcrCache(cacheScope) : null;
+    let detections: FrameDet[];
+    if (cached) {
+      console.log(`♻️  Steps 1-2: Using cached OCR results (${cached.length} frames, not extracted)`);
+      // No frames are extracted, so there is no image to point at
+      detections = cached.map((d) => ({ ...d, framePath: "" }));
+      report("ocr", 1, cached.length, cached.length);
+    } else {
+      detections = await extractAndDetect(absoluteVideoPath, workDir, givenSource, signal, report);
+    }
+    const ocrCallsSaved = cached
+      ? detections.length
+      : detections.filter((d) => d.reusedFrom !== undefined).length;
+    const ocrFailedFrames = detections.filter((d) => d.error !== undefined).length;
+    if (ocrFailedFrames > 0) {
+      const message = `${ocrFailedFrames} of ${detections.length} frames could not be OCR'd`;
+      // Without text from every frame, subtitles would silently go missing
+      if (ocrFailedFrames === detections.length || process.env.OCR_FAIL_ON_ERROR === "1") {
+        throw new Error(message);
       }
+      console.warn(`   ⚠️  ${message}`);
+    }
+    // Only complete passes are cached, so a retry after failures OCRs again
+    if (cacheScope && !cached && ocrFailedFrames === 0) {
+      await storeOcrCache(cacheScope, detections as DetectionFrame[]);
+    }
 
-      console.log(`🌍 Step 4: Translating sequence to ${targetLanguage}...`);
-      const seqMap = await translateSequence(sequence, targetLanguage);
-      console.log(`   ✅ Translated ${Object.keys(seqMap).length} sequence items`);
-      textsDetectedCount = sequence.length;
-      translationsAppliedCount = Object.keys(seqMap).length;
+    report("grouping", 0);
+    const { subtitleFrames, sourceLanguage } = groupDetections(detections, options);
+    throwIfAborted(signal);
 
-      console.log("🎨 Step 5: Applying translations to frames...");
-      translatedFrames = subtitleFrames.map((frame) => {
-        const joined = (frame.texts || [])
+    return {
+      absoluteVideoPath,
+      workDir,
+      framesProcessed: detections.length,
+      ocrCallsSaved,
+      ocrCached: !!cached,
+      framesExtracted: !cached,
+      ocrFailedFrames,
+      subtitleFrames,
+      sourceLanguage: sourceLanguage?.code,
+    };
+  } catch (error) {
+    if (isAbortError(error, signal)) {
+      console.log("🛑 Translation cancelled, removing working directory...");
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+      throw error;
+    }
+    console.error("❌ Error in translation workflow:", error);
+    throw error;
+  }
+}
+
+/**
+ * Per-language half of the pipeline: translate the analysed lines and burn
+ * them into a new video under outputDir.
+ */
+export async function renderLanguageAss(
+  analysis: VideoAnalysis,
+  targetLanguage: string,
+  outputDir: string,
+  options?: TranslateOptions,
+  control: PipelineControl = {}
+) {
+  const { signal } = control;
+  const report = progressReporter(control.onProgress);
+  const { absoluteVideoPath, subtitleFrames, sourceLanguage } = analysis;
+  const startTime = Date.now();
+  await fs.mkdir(outputDir, { recursive: true });
+  const glossary = await loadGlossaryTerms(options, targetLanguage);
+
+  // Step mode joins a frame's lines into one caption, so in-place jobs,
+  // which keep lines apart, always translate per line
+  const stepMode = process.env.STEP_MODE === "1" && options?.placement !== "in-place";
+  let translatedFrames: TranslatedFrame[];
+  let textsDetectedCount = 0;
+  let translationsAppliedCount = 0;
+  let glossaryViolations = 0;
+  if (stepMode) {
+    const perFrame = subtitleFrames
+      .map((f) => ({
+        frameNumber: f.frameNumber,
+        timestamp: f.timestamp,
+        duration: f.duration,
+        text: (f.texts || [])
           .map((t) => (t.text || "").trim())
           .filter(Boolean)
           .join(" ")
-          .trim();
-        const translatedJoined = process.env.NORMALIZE_CJK_SPACING === "0"
-          ? (seqMap[joined] || joined)
-          : normalizeCJKSpacing(seqMap[joined] || joined);
-        const outTexts = (frame.texts || []).map((t, idx) => ({
-          ...t,
-          translatedText: idx === 0 ? translatedJoined : "",
-        }));
-        return { frameNumber: frame.frameNumber, texts: outTexts } as unknown as TranslatedFrame;
+          .trim(),
+      }))
+      .filter((x) => x.text.length > 0);
+
+    // Ordered unique sequence (preserve first occurrence)
+    const seen = new Set<string>();
+    const sequence = perFrame
+      .map((x) => x.text)
+      .filter((t) => {
+        if (seen.has(t)) return false;
+        seen.add(t);
+        return true;
       });
-    } else {
-      const uniquePhrases = new Set<string>();
-      subtitleFrames.forEach((frame) =>
-        frame.texts.forEach((t) => uniquePhrases.add(t.text))
-      );
-
-      console.log(`🌍 Step 4: Translating to ${targetLanguage}...`);
-      const translationMap: Record<string, string> = await translateTexts(
-        Array.from(uniquePhrases),
-        targetLanguage
-      );
-      console.log(`   ✅ Translated ${Object.keys(translationMap).length} texts`);
-      textsDetectedCount = uniquePhrases.size;
-      translationsAppliedCount = Object.keys(translationMap).length;
-
-      console.log("🎨 Step 5: Applying translations to frames...");
-      translatedFrames = subtitleFrames.map((frame) => ({
-        ...frame,
-        texts: frame.texts.map((textObj) => ({
-          ...textObj,
-          translatedText:
-            process.env.NORMALIZE_CJK_SPACING === "0"
-              ? translationMap[textObj.text] || textObj.text
-              : normalizeCJKSpacing(translationMap[textObj.text] || textObj.text),
-        })),
-      })) as unknown as TranslatedFrame[];
+
+    if (process.env.DEBUG_TRANSLATION === "1") {
+      try {
+        await fs.writeFile(path.resolve(outputDir, "segments_raw.json"), JSON.stringify(perFrame, null, 2));
+        await fs.writeFile(path.resolve(outputDir, "sequence_ordered.json"), JSON.stringify(sequence, null, 2));
+      } catch {}
+    }
+
+    console.log(`🌍 Step 4: Translating sequence to ${targetLanguage}...`);
+    report("translating", 0, 0, 1);
+    const seqMap = await translateSequence(sequence, targetLanguage, {
+      signal,
+      glossary,
+      sourceLanguage,
+    });
+    console.log(`   ✅ Translated ${Object.keys(seqMap).length} sequence items`);
+    glossaryViolations = checkGlossaryCompliance(seqMap, glossary).length;
+    report("translating", 1, 1, 1);
+    textsDetectedCount = sequence.length;
+    translationsAppliedCount = Object.keys(seqMap).length;
+
+    console.log("🎨 Step 5: Applying translations to frames...");
+    translatedFrames = subtitleFrames.map((frame) => {
+      const joined = (frame.texts || [])
+        .map((t) => (t.text || "").trim())
+        .filter(Boolean)
+        .join(" ")
+        .trim();
+      const translatedJoined = process.env.NORMALIZE_CJK_SPACING === "0"
+        ? (seqMap[joined] || joined)
+        : normalizeCJKSpacing(seqMap[joined] || joined);
+      const outTexts = (frame.texts || []).map((t, idx) => ({
+        ...t,
+        translatedText: idx === 0 ? translatedJoined : "",
+      }));
+      return {
+        frameNumber: frame.frameNumber,
+        timestamp: frame.timestamp,
+        duration: frame.duration,
+        texts: outTexts,
+      } as unknown as TranslatedFrame;
+    });
+  } else {
+    const uniquePhrases = new Set<string>();
+    subtitleFrames.forEach((frame) =>
+      frame.texts.forEach((t) => uniquePhrases.add(t.text))
+    );
+
+    console.log(`🌍 Step 4: Translating to ${targetLanguage}...`);
+    report("translating", 0, 0, 1);
+    const translationMap: Record<string, string> = await translateTexts(
+      Array.from(uniquePhrases),
+      targetLanguage,
+      { signal, glossary, sourceLanguage }
+    );
+    console.log(`   ✅ Translated ${Object.keys(translationMap).length} texts`);
+    glossaryViolations = checkGlossaryCompliance(translationMap, glossary).length;
+    report("translating", 1, 1, 1);
+    textsDetectedCount = uniquePhrases.size;
+    translationsAppliedCount = Object.keys(translationMap).length;
+
+    console.log("🎨 Step 5: Applying translations to frames...");
+    translatedFrames = subtitleFrames.map((frame) => ({
+      ...frame,
+      texts: frame.texts.map((textObj) => ({
+        ...textObj,
+        translatedText:
+          process.env.NORMALIZE_CJK_SPACING === "0"
+            ? translationMap[textObj.text] || textObj.text
+            : normalizeCJKSpacing(translationMap[textObj.text] || textObj.text),
+      })),
+    })) as unknown as TranslatedFrame[];
+  }
+
+  const placement = options?.placement ?? "bottom";
+  console.log("⏱️  Refining subtitle timing...");
+  const timing = await refineSegmentTiming(
+    absoluteVideoPath,
+    segmentsForPlacement(translatedFrames, placement),
+    {
+      signal,
+      regionFor: (seg) => seg.box ?? captionRegion(translatedFrames, seg),
+      sampleTimes: subtitleFrames.map((f) => f.timestamp),
     }
+  );
+  console.log(`   ✅ Refined ${timing.refined} segment boundaries`);
 
+  let outputPath: string | undefined;
+  if (options?.subtitlesOnly) {
+    console.log("⏭️  Step 6: Skipping burn-in (subtitles only)");
+  } else {
     console.log(
-      "🎬 Step 6: Creating video with subtitles (ASS bottom-center)..."
+      (options?.outputMode || "burn") === "burn"
+        ? "🎬 Step 6: Creating video with subtitles (ASS bottom-center)..."
+        : "🎬 Step 6: Adding subtitle track (stream copy)..."
     );
-    const outputPath = path.resolve(workDir, "output_translated.mp4");
-    await overlaySubtitlesBottomCenter(
+    report("encoding", 0);
+    outputPath = await writeVideoOutput(
       absoluteVideoPath,
-      translatedFrames,
-      outputPath,
-      options || {}
+      [{ segments: timing.segments, targetLanguage }],
+      outputDir,
+      "output_translated",
+      options || {},
+      {
+        signal,
+        onProgress: (percent) => report("encoding", percent / 100),
+      }
     );
     console.log(`   ✅ Video created: ${outputPath}`);
+  }
+
+  await saveRenderState(outputDir, {
+    videoPath: absoluteVideoPath,
+    targetLanguage,
+    options: options || {},
+    revision: 1,
+    outputPath,
+    detections: subtitleFrames,
+    translatedFrames,
+    glossary,
+    timing: { placement, segments: timing.segments },
+  });
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+  return {
+    outputPath,
+    stats: {
+      framesProcessed: analysis.framesProcessed,
+      ocrCallsSaved: analysis.ocrCallsSaved,
+      ocrFailedFrames: analysis.ocrFailedFrames || undefined,
+      ocrCached: analysis.ocrCached || undefined,
+      warnings: ocrWarnings(analysis),
+      sourceLanguage,
+      textsDetected: textsDetectedCount,
+      translationsApplied: translationsAppliedCount,
+      glossaryViolations: glossary ? glossaryViolations : undefined,
+      processingTime: `${duration}s`,
+      outputSize: await formatOutputSize(outputPath),
+    },
+  };
+}
+
+// Problems that didn't fail the job, for its stats
+export function ocrWarnings(analysis: VideoAnalysis): string[] | undefined {
+  return analysis.ocrFailedFrames > 0
+    ? [`${analysis.ocrFailedFrames} frames could not be OCR'd`]
+    : undefined;
+}
+
+async function formatOutputSize(outputPath?: string): Promise<string | undefined> {
+  if (!outputPath) return undefined;
+  const size = (await fs.stat(outputPath)).size;
+  return `${(size / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Burn the saved translations into a new output revision with different
+ * styling. Skips OCR and translation; only the encode runs again.
+ */
+export async function rerenderVideoAss(
+  outputDir: string,
+  options: TranslateOptions,
+  control: PipelineControl = {}
+) {
+  const { signal, onProgress } = control;
+  const state = await loadRenderState(outputDir);
+  if (!state) throw new Error("Nothing to re-render: render state not found");
+
+  const startTime = Date.now();
+  const revision = state.revision + 1;
+
+  // Subtitle-only jobs just record the new revision; exports read it directly
+  if (options.subtitlesOnly) {
+    await saveRenderState(outputDir, { ...state, options, revision });
+    return {
+      outputPath: state.outputPath,
+      revision,
+      stats: { processingTime: "0.00s" },
+    };
+  }
+
+  const name = `output_translated_r${revision}`;
+
+  console.log(`🎬 Re-rendering revision ${revision}...`);
+  onProgress?.({ stage: "encoding", progress: 0 });
+  const outputPath = await writeVideoOutput(
+    state.videoPath,
+    [{ segments: getRenderSegments(state, options.placement), targetLanguage: state.targetLanguage }],
+    outputDir,
+    name,
+    options,
+    {
+      signal,
+      onProgress: (percent) =>
+        onProgress?.({ stage: "encoding", progress: Math.round(percent * 0.99) }),
+    }
+  ).catch(async (error) => {
+    for (const ext of ["mp4", "mkv"]) {
+      await fs.unlink(path.resolve(outputDir, `${name}.${ext}`)).catch(() => {});
+    }
+    throw error;
+  });
+  console.log(`   ✅ Video created: ${outputPath}`);
+
+  // Only the latest revision is kept on disk
+  const previousOutput = state.outputPath;
+  await saveRenderState(outputDir, { ...state, options, revision, outputPath });
+  if (previousOutput && previousOutput !== outputPath) {
+    await fs.unlink(previousOutput).catch(() => {});
+  }
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+  return {
+    outputPath,
+    revision,
+    stats: {
+      processingTime: `${duration}s`,
+      outputSize: await formatOutputSize(outputPath),
+    },
+  };
+}
+
+/**
+ * Multi-track output for a multi-language job: mux every finished
+ * language's subtitles into one copy of the video.
+ */
+export async function muxLanguageTracks(
+  videoPath: string,
+  languageDirs: string[],
+  outputDir: string,
+  options: TranslateOptions,
+  control: RenderControl = {}
+) {
+  const tracks: { segments: SubtitleSegment[]; targetLanguage: string }[] = [];
+  for (const dir of languageDirs) {
+    const state = await loadRenderState(dir);
+    if (state) {
+      tracks.push({ segments: getRenderSegments(state), targetLanguage: state.targetLanguage });
+    }
+  }
+  if (!tracks.length) throw new Error("No subtitle tracks to mux");
+
+  console.log(`🎬 Muxing ${tracks.length} subtitle track(s)...`);
+  const outputPath = await writeVideoOutput(
+    path.resolve(videoPath),
+    tracks,
+    outputDir,
+    "output_multitrack",
+    { ...options, outputMode: "multi-track" },
+    control
+  );
+  console.log(`   ✅ Video created: ${outputPath}`);
+  return { outputPath, tracks: tracks.length, outputSize: await formatOutputSize(outputPath) };
+}
+
+export async function translateVideoAss(
+  videoPath: string,
+  targetLanguage: string,
+  options?: TranslateOptions,
+  control: PipelineControl = {}
+) {
+  const startTime = Date.now();
+  const analysis = await analyzeVideoAss(videoPath, control, options);
+  const { workDir } = analysis;
+
+  try {
+    const result = await renderLanguageAss(
+      analysis,
+      targetLanguage,
+      workDir,
+      options,
+      control
+    );
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    const outputSize = (await fs.stat(outputPath)).size;
 
     console.log("");
     console.log("✨ Translation complete!");
     console.log(`   ⏱️  Duration: ${duration}s`);
-    console.log(`   📊 Translations applied: ${translationsAppliedCount}`);
-    console.log(`   📁 Output: ${outputPath}`);
-    console.log(`   💾 Size: ${(outputSize / 1024 / 1024).toFixed(2)} MB`);
+    console.log(`   📊 Translations applied: ${result.stats.translationsApplied}`);
+    if (result.outputPath) {
+      console.log(`   📁 Output: ${result.outputPath}`);
+      console.log(`   💾 Size: ${result.stats.outputSize}`);
+    }
 
     return {
-      outputPath,
+      outputPath: result.outputPath,
       workDir,
-      stats: {
-        framesProcessed: filteredFrames.length,
-        textsDetected: textsDetectedCount,
-        translationsApplied: translationsAppliedCount,
-        processingTime: `${duration}s`,
-        outputSize: `${(outputSize / 1024 / 1024).toFixed(2)} MB`,
-      },
+      stats: { ...result.stats, processingTime: `${duration}s` },
     };
   } catch (error) {
+    if (isAbortError(error, control.signal)) {
+      console.log("🛑 Translation cancelled, removing working directory...");
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+      throw error;
+    }
     console.error("❌ Error in translation workflow:", error);
     throw error;
   }
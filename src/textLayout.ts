@@ -0,0 +1,127 @@
+import { dominantScript } from './languages.js';
+import type { Script } from './languages.js';
+
+/**
+ * Script-aware line layout for burned-in subtitles: line breaking on
+ * Intl.Segmenter word/grapheme boundaries, right-to-left runs and a local
+ * fallback font per script.
+ */
+
+// Average advance of one grapheme as a fraction of the font size. Latin and
+// CJK come from the configurable cjk/latin width factors.
+const SCRIPT_WIDTH_FACTORS: Partial<Record<Script, number>> = {
+  arabic: 0.5, // joined letters are narrow
+  hebrew: 0.55,
+  thai: 0.55,
+  devanagari: 0.7, // a grapheme is often a whole conjunct
+};
+
+// Installed by fonts-noto-core / fonts-noto-cjk in the Docker image
+const SCRIPT_FONTS: Partial<Record<Script, string>> = {
+  arabic: 'Noto Naskh Arabic',
+  hebrew: 'Noto Sans Hebrew',
+  thai: 'Noto Sans Thai',
+  devanagari: 'Noto Sans Devanagari',
+  han: 'Noto Sans CJK SC',
+  kana: 'Noto Sans CJK JP',
+  hangul: 'Noto Sans CJK KR',
+};
+
+const RTL_SCRIPTS: Script[] = ['arabic', 'hebrew'];
+
+// Unicode RIGHT-TO-LEFT EMBEDDING ... POP DIRECTIONAL FORMATTING
+const RLE = '\u202B';
+const PDF = '\u202C';
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+export type WidthFactors = { cjk: number; latin: number };
+
+export function isRtl(text: string): boolean {
+  const script = dominantScript(text);
+  return !!script && RTL_SCRIPTS.includes(script);
+}
+
+/**
+ * Font to render the text with when no custom font is configured, or
+ * undefined to keep the style's default font
+ */
+export function fallbackFont(text: string): string | undefined {
+  const script = dominantScript(text);
+  return script ? SCRIPT_FONTS[script] : undefined;
+}
+
+export function graphemes(text: string): string[] {
+  return Array.from(graphemeSegmenter.segment(text), (s) => s.segment);
+}
+
+function graphemeFactor(grapheme: string, factors: WidthFactors): number {
+  const script = dominantScript(grapheme);
+  if (script === 'han' || script === 'kana' || script === 'hangul') return factors.cjk;
+  return (script && SCRIPT_WIDTH_FACTORS[script]) ?? factors.latin;
+}
+
+// Width estimate in pixels from per-script average advances
+export function estimateTextWidth(text: string, fontSize: number, factors: WidthFactors): number {
+  return graphemes(text).reduce((w, g) => w + graphemeFactor(g, factors) * fontSize, 0);
+}
+
+/**
+ * Split text into the smallest pieces a line may break between: a word
+ * with the spaces and punctuation that follow it. Thai and CJK have no
+ * spaces; the segmenter's dictionary finds their word boundaries.
+ */
+function breakUnits(text: string): string[] {
+  const units: string[] = [];
+  for (const { segment, isWordLike } of wordSegmenter.segment(text)) {
+    // Punctuation and spaces never start a line
+    if (!isWordLike && units.length > 0) {
+      units[units.length - 1] += segment;
+    } else {
+      units.push(segment);
+    }
+  }
+  return units;
+}
+
+/**
+ * Greedy line breaking: each line takes as many units as fit in maxWidth.
+ * A unit wider than a whole line is broken between graphemes.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (line: string) => number
+): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  const place = (piece: string) => {
+    const candidate = line + piece;
+    if (line.trim() && measure(candidate.trimEnd()) > maxWidth) {
+      lines.push(line.trimEnd());
+      line = piece.trimStart();
+    } else {
+      line = candidate;
+    }
+  };
+
+  for (const unit of breakUnits(text.trim())) {
+    if (measure(unit.trimEnd()) > maxWidth) {
+      graphemes(unit).forEach(place);
+    } else {
+      place(unit);
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+/**
+ * Keep a right-to-left line in RTL order even when it starts with, or
+ * contains, left-to-right text such as numbers and brand names
+ */
+export function directionalLine(line: string): string {
+  return isRtl(line) ? `${RLE}${line}${PDF}` : line;
+}
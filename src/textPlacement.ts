@@ -0,0 +1,221 @@
+import { extractRegionPixels, sampleSpan } from './frameExtractor.js';
+import type { SubtitleSegment, TextRegion } from './types.js';
+
+/**
+ * In-place placement: each translated line replaces the original text at
+ * its detected position instead of appearing in a bottom caption.
+ */
+
+type PositionedText = {
+  text?: string;
+  translatedText?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+};
+
+type PositionedFrame = {
+  frameNumber: number;
+  timestamp?: number;
+  duration?: number;
+  texts: PositionedText[];
+};
+
+function regionOf(t: PositionedText): TextRegion | null {
+  const { x, y, width, height } = t;
+  if ([x, y, width, height].some((v) => typeof v !== 'number' || !isFinite(v))) return null;
+  if (width! <= 0 || height! <= 0) return null;
+  return { x: x!, y: y!, width: width!, height: height! };
+}
+
+// Intersection over the smaller box, so a line that grows or shrinks a little still matches
+function overlapRatio(a: TextRegion, b: TextRegion): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  return (w * h) / Math.min(a.width * a.height, b.width * b.height);
+}
+
+function union(a: TextRegion, b: TextRegion): TextRegion {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/**
+ * One segment per line of text per run of consecutive frames it stays in
+ * place, keeping its box. Unlike captions, several lines can show at once.
+ * The box is the union over the run so the cover hides every frame's text.
+ */
+export function placedSegmentsFromFrames(
+  frames: PositionedFrame[],
+  fps = 1
+): SubtitleSegment[] {
+  type Run = SubtitleSegment & { box: TextRegion; lastFrame: number };
+  let open: Run[] = [];
+  const closed: Run[] = [];
+
+  const sorted = frames.slice().sort((a, b) => a.frameNumber - b.frameNumber);
+  for (const frame of sorted) {
+    const { start, end } = sampleSpan(frame, fps);
+    const seen = new Set<Run>();
+    for (const t of frame.texts || []) {
+      const translatedText = (t.translatedText || '').trim();
+      const box = regionOf(t);
+      if (!translatedText || !box) continue;
+      const run = open.find(
+        (r) =>
+          !seen.has(r) &&
+          r.lastFrame === frame.frameNumber - 1 &&
+          r.translatedText === translatedText &&
+          overlapRatio(r.box, box) >= 0.5
+      );
+      if (run) {
+        run.end = end;
+        run.lastFrame = frame.frameNumber;
+        run.box = union(run.box, box);
+        seen.add(run);
+      } else {
+        const originalText = (t.text || '').trim();
+        const created: Run = { start, end, originalText, translatedText, box, lastFrame: frame.frameNumber };
+        open.push(created);
+        seen.add(created);
+      }
+    }
+    closed.push(...open.filter((r) => !seen.has(r)));
+    open = open.filter((r) => seen.has(r));
+  }
+  closed.push(...open);
+
+  return closed
+    .sort((a, b) => a.start - b.start || a.box.y - b.box.y || a.box.x - b.box.x)
+    .map(({ lastFrame, box, ...seg }) => ({
+      ...seg,
+      box: {
+        x: Math.round(box.x),
+        y: Math.round(box.y),
+        width: Math.round(box.width),
+        height: Math.round(box.height),
+      },
+    }));
+}
+
+/**
+ * The box grown by the cover's padding and clipped to the frame
+ */
+export function coverRegion(box: TextRegion, frameWidth: number, frameHeight: number): TextRegion {
+  const pad = Math.max(2, Math.round(box.height * 0.15));
+  const x = Math.max(0, Math.round(box.x - pad));
+  const y = Math.max(0, Math.round(box.y - pad));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(frameWidth, Math.round(box.x + box.width + pad)) - x),
+    height: Math.max(1, Math.min(frameHeight, Math.round(box.y + box.height + pad)) - y),
+  };
+}
+
+// Sampled area is scaled down to at most this many pixels wide
+const SAMPLE_WIDTH = 64;
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+/**
+ * Background colour around a text box at a moment in the video, as
+ * #RRGGBB. Reads the ring between the box and its cover padding: the
+ * median colour there is the background even where letters poke out.
+ */
+async function sampleBackgroundColor(
+  videoPath: string,
+  time: number,
+  box: TextRegion,
+  frameWidth: number,
+  frameHeight: number
+): Promise<string | null> {
+  const area = coverRegion(box, frameWidth, frameHeight);
+  const outW = Math.min(SAMPLE_WIDTH, area.width);
+  const outH = Math.max(1, Math.round((area.height * outW) / area.width));
+  try {
+    const pixels = await extractRegionPixels(videoPath, time, area, outW, outH);
+
+    // The text box inside the sampled area, in scaled pixels
+    const sx = outW / area.width;
+    const sy = outH / area.height;
+    const inner = {
+      left: Math.floor((box.x - area.x) * sx),
+      top: Math.floor((box.y - area.y) * sy),
+      right: Math.ceil((box.x + box.width - area.x) * sx),
+      bottom: Math.ceil((box.y + box.height - area.y) * sy),
+    };
+    const channels: number[][] = [[], [], []];
+    for (let py = 0; py < outH; py++) {
+      for (let px = 0; px < outW; px++) {
+        const inside = px >= inner.left && px < inner.right && py >= inner.top && py < inner.bottom;
+        if (inside) continue;
+        const i = (py * outW + px) * 3;
+        channels.forEach((values, c) => values.push(pixels[i + c]));
+      }
+    }
+    // Box fills the whole sample (text at the frame edge): use every pixel
+    if (channels[0].length === 0) {
+      for (let i = 0; i + 2 < outW * outH * 3; i += 3) {
+        channels.forEach((values, c) => values.push(pixels[i + c]));
+      }
+    }
+    return '#' + channels.map((v) => median(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+  } catch (error) {
+    console.warn(`   ⚠️  Cover colour sampling failed at ${time.toFixed(2)}s: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Cover colour for each segment, sampled halfway through it. Segments
+ * without a box, or where sampling fails, get null.
+ */
+export async function sampleCoverColors(
+  videoPath: string,
+  segments: SubtitleSegment[],
+  frameWidth: number,
+  frameHeight: number
+): Promise<(string | null)[]> {
+  const colors: (string | null)[] = [];
+  for (const seg of segments) {
+    colors.push(
+      seg.box
+        ? await sampleBackgroundColor(videoPath, (seg.start + seg.end) / 2, seg.box, frameWidth, frameHeight)
+        : null
+    );
+  }
+  return colors;
+}
+
+/**
+ * ffmpeg delogo filters that blur out the original text of each positioned
+ * segment while it is on screen
+ */
+export function delogoFilters(
+  segments: SubtitleSegment[],
+  frameWidth: number,
+  frameHeight: number
+): string[] {
+  return segments.flatMap((seg) => {
+    if (!seg.box) return [];
+    // delogo interpolates from the pixels around the area, so keep a 1px margin inside the frame
+    const area = coverRegion(seg.box, frameWidth, frameHeight);
+    const x = Math.min(Math.max(1, area.x), frameWidth - 3);
+    const y = Math.min(Math.max(1, area.y), frameHeight - 3);
+    const w = Math.max(1, Math.min(area.x + area.width, frameWidth - 1) - x);
+    const h = Math.max(1, Math.min(area.y + area.height, frameHeight - 1) - y);
+    return [`delogo=x=${x}:y=${y}:w=${w}:h=${h}:enable='between(t,${seg.start},${seg.end})'`];
+  });
+}
@@ -0,0 +1,184 @@
+import dotenv from 'dotenv';
+import { throwIfAborted } from './abort.js';
+import { extractRegionPixels, getVideoDuration, sampleSpan } from './frameExtractor.js';
+import type { SubtitleSegment, TextRegion } from './types.js';
+
+dotenv.config();
+
+// Set REFINE_TIMING=0 to keep boundaries at the sampled frame times
+const REFINE_TIMING = (process.env.REFINE_TIMING || '1') !== '0';
+// Bisection stops once a transition is pinned to this many seconds
+const REFINE_TIMING_PRECISION = Math.max(0.02, Number(process.env.REFINE_TIMING_PRECISION || 0.1));
+
+// Probes are compared as small grayscale thumbnails of the text region
+const PROBE_WIDTH = 48;
+// Mean per-pixel difference (0-255) below which the region didn't visibly change
+const MIN_CHANGE = 4;
+
+type PositionedFrame = {
+  frameNumber: number;
+  timestamp?: number;
+  duration?: number;
+  texts: { x?: number; y?: number; width?: number; height?: number }[];
+};
+
+function meanDifference(a: Buffer, b: Buffer): number {
+  const n = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += Math.abs(a[i] - b[i]);
+  return n ? sum / n : 0;
+}
+
+function roundTime(sec: number): number {
+  return Math.round(sec * 1000) / 1000;
+}
+
+/**
+ * Union of the text boxes on the frames a caption was built from, so its
+ * transitions are judged on the text rather than the whole picture
+ */
+export function captionRegion(
+  frames: PositionedFrame[],
+  segment: SubtitleSegment,
+  fps = 1
+): TextRegion | undefined {
+  let region: { left: number; top: number; right: number; bottom: number } | undefined;
+  for (const frame of frames) {
+    const t = sampleSpan(frame, fps).start;
+    if (t < segment.start || t >= segment.end) continue;
+    for (const box of frame.texts || []) {
+      if (![box.x, box.y, box.width, box.height].every((v) => typeof v === 'number' && isFinite(v))) {
+        continue;
+      }
+      const left = box.x!;
+      const top = box.y!;
+      const right = left + box.width!;
+      const bottom = top + box.height!;
+      region = region
+        ? {
+            left: Math.min(region.left, left),
+            top: Math.min(region.top, top),
+            right: Math.max(region.right, right),
+            bottom: Math.max(region.bottom, bottom),
+          }
+        : { left, top, right, bottom };
+    }
+  }
+  if (!region || region.right <= region.left || region.bottom <= region.top) return undefined;
+  return {
+    x: Math.max(0, Math.floor(region.left)),
+    y: Math.max(0, Math.floor(region.top)),
+    width: Math.ceil(region.right - region.left),
+    height: Math.ceil(region.bottom - region.top),
+  };
+}
+
+export type RefineTimingOptions = {
+  signal?: AbortSignal;
+  sampleTimes?: number[]; // times of the frames the segments came from; default whole seconds
+  regionFor?: (segment: SubtitleSegment) => TextRegion | undefined; // defaults to segment.box
+};
+
+/**
+ * Move segment boundaries from sample times to where the text really
+ * appears and disappears. Each boundary lies between two samples; frames in
+ * between are pulled with ffmpeg seeks and bisected by which side's picture
+ * of the text region they resemble. Boundaries that can't be probed keep
+ * their sampled time.
+ */
+export async function refineSegmentTiming(
+  videoPath: string,
+  segments: SubtitleSegment[],
+  options: RefineTimingOptions = {}
+): Promise<{ segments: SubtitleSegment[]; refined: number }> {
+  if (!REFINE_TIMING || segments.length === 0) return { segments, refined: 0 };
+  const { signal } = options;
+  const sampleTimes = (options.sampleTimes ?? []).slice().sort((a, b) => a - b);
+  // The sample before a boundary: the last one earlier than it, else a second back
+  const sampleBefore = (time: number) => {
+    let before = time - 1;
+    for (const t of sampleTimes) {
+      if (t >= time - 0.0005) break;
+      before = t;
+    }
+    return before;
+  };
+  const duration = await getVideoDuration(videoPath).catch(() => Infinity);
+
+  const probes = new Map<string, Promise<Buffer>>();
+  const probe = (region: TextRegion | undefined, time: number) => {
+    const key = `${region ? `${region.x},${region.y},${region.width},${region.height}` : 'frame'}@${time}`;
+    let pixels = probes.get(key);
+    if (!pixels) {
+      const width = Math.min(PROBE_WIDTH, region?.width ?? PROBE_WIDTH);
+      const height = region
+        ? Math.max(1, Math.round((region.height * width) / region.width))
+        : Math.round(width * 0.5625);
+      pixels = extractRegionPixels(videoPath, time, region ?? null, width, height, 'gray');
+      probes.set(key, pixels);
+    }
+    return pixels;
+  };
+
+  // Time in (before, after] where the region stops looking like it does at
+  // `before` and starts looking like it does at `after`
+  const transition = async (region: TextRegion | undefined, before: number, after: number) => {
+    const from = await probe(region, before);
+    const to = await probe(region, after);
+    if (meanDifference(from, to) < MIN_CHANGE) return null;
+    let lo = before;
+    let hi = after;
+    while (hi - lo > REFINE_TIMING_PRECISION) {
+      throwIfAborted(signal);
+      const mid = (lo + hi) / 2;
+      const pixels = await probe(region, mid);
+      if (meanDifference(pixels, to) <= meanDifference(pixels, from)) hi = mid;
+      else lo = mid;
+    }
+    return roundTime(hi);
+  };
+
+  const refineBoundary = async (region: TextRegion | undefined, sampled: number, what: string) => {
+    const before = roundTime(sampleBefore(sampled));
+    if (before < 0 || sampled > duration) return null;
+    try {
+      return await transition(region, before, sampled);
+    } catch (error) {
+      throwIfAborted(signal);
+      console.warn(`   ⚠️  Could not refine ${what} at ${sampled}s: ${(error as Error).message}`);
+      return null;
+    }
+  };
+
+  let refined = 0;
+  const out: SubtitleSegment[] = [];
+  for (const seg of segments) {
+    throwIfAborted(signal);
+    const region = options.regionFor?.(seg) ?? seg.box;
+    const start = await refineBoundary(region, seg.start, 'start');
+    const end = await refineBoundary(region, seg.end, 'end');
+    const next = { ...seg };
+    if (start !== null) next.start = start;
+    if (end !== null) next.end = end;
+    if (next.end <= next.start) {
+      next.start = seg.start;
+      next.end = seg.end;
+    } else {
+      refined += Number(start !== null) + Number(end !== null);
+    }
+    out.push(next);
+  }
+
+  // Back-to-back captions share a boundary: the next one's start wins
+  let previous: SubtitleSegment | undefined;
+  for (const seg of out) {
+    if (seg.box) continue;
+    if (previous && seg.start < previous.end) {
+      previous.end = Math.max(previous.start + 0.001, seg.start);
+      seg.start = Math.max(seg.start, previous.end);
+    }
+    previous = seg;
+  }
+
+  return { segments: out, refined };
+}
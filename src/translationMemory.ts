@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { database } from './database.js';
+import type { TranslationMap } from './types.js';
+
+dotenv.config();
+
+// Set TRANSLATION_MEMORY=0 to always call the provider
+const TRANSLATION_MEMORY_ENABLED = (process.env.TRANSLATION_MEMORY || '1') !== '0';
+
+/**
+ * What a cached translation is valid for. A change to any of these
+ * (new model, reworded prompt) means a fresh translation.
+ */
+export interface TranslationScope {
+  targetLanguage: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface TranslationMemoryEntry extends TranslationScope {
+  id: string;
+  sourceText: string;
+  translatedText: string;
+  override: boolean; // set by an admin; never replaced by provider output
+  hits: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TranslationMemoryFilter {
+  targetLanguage?: string;
+  provider?: string;
+  model?: string;
+  override?: boolean; // only overridden (true) or only provider (false) entries
+  search?: string; // substring of the source or translated text
+  limit?: number;
+  offset?: number;
+}
+
+export function isTranslationMemoryEnabled(): boolean {
+  return TRANSLATION_MEMORY_ENABLED;
+}
+
+export function normalizeScope(scope: TranslationScope): TranslationScope {
+  return { ...scope, targetLanguage: scope.targetLanguage.trim().toLowerCase() };
+}
+
+// Deterministic id, so the same phrase in the same scope always maps to one row
+export function translationMemoryId(scope: TranslationScope, sourceText: string): string {
+  const s = normalizeScope(scope);
+  return crypto
+    .createHash('sha256')
+    .update([s.targetLanguage, s.provider, s.model, s.promptVersion, sourceText].join('\u0000'))
+    .digest('hex');
+}
+
+/**
+ * Cached translations for the given source texts. Lookup errors are logged
+ * and treated as misses so a database problem never blocks translation.
+ */
+export async function lookupTranslations(
+  scope: TranslationScope,
+  sourceTexts: string[]
+): Promise<TranslationMap> {
+  if (!TRANSLATION_MEMORY_ENABLED || sourceTexts.length === 0) return {};
+  try {
+    const ids = sourceTexts.map((text) => translationMemoryId(scope, text));
+    const entries = await database.getTranslationMemory(ids, true);
+    const found: TranslationMap = {};
+    for (const entry of entries) found[entry.sourceText] = entry.translatedText;
+    return found;
+  } catch (error) {
+    console.error('   ⚠️  Translation memory lookup failed:', (error as Error).message);
+    return {};
+  }
+}
+
+export async function storeTranslations(
+  scope: TranslationScope,
+  translations: TranslationMap
+): Promise<void> {
+  const sources = Object.keys(translations);
+  if (!TRANSLATION_MEMORY_ENABLED || sources.length === 0) return;
+  const now = Date.now();
+  const normalized = normalizeScope(scope);
+  try {
+    await database.saveTranslationMemory(
+      sources.map((sourceText) => ({
+        ...normalized,
+        id: translationMemoryId(scope, sourceText),
+        sourceText,
+        translatedText: translations[sourceText],
+        override: false,
+        hits: 0,
+        createdAt: now,
+        updatedAt: now,
+      }))
+    );
+  } catch (error) {
+    console.error('   ⚠️  Translation memory store failed:', (error as Error).message);
+  }
+}
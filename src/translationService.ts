@@ -2,31 +2,75 @@ import OpenAI from "openai";
 import dotenv from "dotenv";
 import fetch from "node-fetch";
 import type { TranslationMap } from "./types.js";
+import { isAbortError } from "./abort.js";
+import { findLanguage } from "./languages.js";
+import { lookupTranslations, storeTranslations } from "./translationMemory.js";
+import type { TranslationScope } from "./translationMemory.js";
+import { findGlossaryViolations, glossaryFingerprint, hasGlossaryTerms } from "./glossary.js";
+import type { GlossaryTerms } from "./glossary.js";
 
 dotenv.config();
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
-
 const DEEPL_API_KEY = process.env.DEEPL_API_KEY;
 const DEEPL_API_URL =
   process.env.DEEPL_API_URL || "https://api-free.deepl.com/v2/translate";
+const DEEPL_BATCH_SIZE = 50; // DeepL accepts at most 50 texts per request
+const DEEPL_GLOSSARIES_URL = DEEPL_API_URL.replace(/\/translate\/?$/, "/glossaries");
 
 const OPENAI_MODEL = process.env.OPENAI_TRANSLATION_MODEL || "gpt-4o-mini";
+
+// Any OpenAI-compatible chat endpoint, e.g. Ollama at http://localhost:11434/v1
+const OPENAI_COMPATIBLE_BASE_URL = process.env.OPENAI_COMPATIBLE_BASE_URL || "";
+const OPENAI_COMPATIBLE_API_KEY = process.env.OPENAI_COMPATIBLE_API_KEY || "ollama";
+const OPENAI_COMPATIBLE_MODEL = process.env.OPENAI_COMPATIBLE_MODEL || "llama3.1";
+
+const LIBRETRANSLATE_URL = (process.env.LIBRETRANSLATE_URL || "").replace(/\/+$/, "");
+const LIBRETRANSLATE_API_KEY = process.env.LIBRETRANSLATE_API_KEY || "";
+
+// 'auto', a provider name, or a fallback chain like "deepl,openai"
+const TRANSLATION_PROVIDER = process.env.TRANSLATION_PROVIDER || "auto";
+// Per-language chains, e.g. "zh=deepl,openai;ja=ollama,openai;*=libretranslate"
+const TRANSLATION_ROUTES = process.env.TRANSLATION_ROUTES || "";
+
 const DEBUG_TRANSLATION = process.env.DEBUG_TRANSLATION === "1";
 
-type Provider = "deepl" | "openai";
+// Bump when the OpenAI prompts change so cached translations are not reused
+const OPENAI_PROMPT_VERSION = "2";
 
-function pickProvider(targetLanguage: string): Provider {
-  const lang = targetLanguage.toLowerCase();
-  const isZh =
-    lang.includes("chinese") ||
-    lang.includes("中文") ||
-    lang === "zh" ||
-    lang.startsWith("zh");
-  if (isZh && DEEPL_API_KEY) return "deepl";
-  return "openai";
+/**
+ * A translation backend. Both methods return a map from every input string
+ * to its translation (the original when it could not be translated).
+ * Providers apply the glossary as well as they can; outputs are checked
+ * against it afterwards either way.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  // Together with name, identifies the output for the translation memory
+  readonly model: string;
+  readonly promptVersion: string;
+  isConfigured(): boolean;
+  supports(targetLanguage: string): boolean;
+  translateTexts(
+    texts: string[],
+    targetLanguage: string,
+    context?: TranslateContext
+  ): Promise<TranslationMap>;
+  // Ordered lines of one video; providers without context support can
+  // treat this like translateTexts
+  translateSequence(
+    texts: string[],
+    targetLanguage: string,
+    context?: TranslateContext
+  ): Promise<TranslationMap>;
+}
+
+/**
+ * Everything about a translation request besides the texts and target
+ */
+export interface TranslateContext {
+  signal?: AbortSignal;
+  glossary?: GlossaryTerms;
+  sourceLanguage?: string; // ISO 639-1; unset lets the provider detect it
 }
 
 /**
@@ -82,105 +126,135 @@ Spanish-specific instructions:
   return ""; // No specific instructions for other languages
 }
 
-interface DeepLTranslation {
-  detected_source_language: string;
-  text: string;
+// How the prompts refer to the source text ("German", or no name when unknown)
+function sourceLanguageName(sourceLanguage?: string): string {
+  return (sourceLanguage && findLanguage(sourceLanguage)?.name) || "source-language";
 }
 
-interface DeepLResponse {
-  translations: DeepLTranslation[];
+// Prompt section listing the glossary terms that appear in the input
+function getGlossaryInstructions(texts: string[], glossary?: GlossaryTerms): string {
+  if (!hasGlossaryTerms(glossary)) return "";
+  const input = texts.join("\n").toLowerCase();
+  const terms = Object.entries(glossary.terms).filter(([source]) =>
+    input.includes(source.toLowerCase())
+  );
+  const keep = glossary.doNotTranslate.filter((term) => input.includes(term.toLowerCase()));
+  if (terms.length === 0 && keep.length === 0) return "";
+
+  let section = "\n\nGlossary (mandatory):";
+  if (terms.length > 0) {
+    section += "\n- Always translate these terms exactly as given:";
+    section += terms.map(([source, target]) => `\n  * "${source}" → "${target}"`).join("");
+  }
+  if (keep.length > 0) {
+    section += "\n- Never translate these terms; copy them unchanged:";
+    section += keep.map((term) => `\n  * "${term}"`).join("");
+  }
+  return section;
 }
 
-async function translateWithDeepL(
-  texts: string[],
-  targetLanguage: string
-): Promise<TranslationMap> {
-  if (!DEEPL_API_KEY) {
-    throw new Error("DEEPL_API_KEY is not configured");
+// Every input gets an entry; missing or empty translations keep the original
+function fillMissing(texts: string[], translationMap: TranslationMap): TranslationMap {
+  for (const t of texts) {
+    if (!(t in translationMap) || !translationMap[t]) {
+      translationMap[t] = t;
+    }
   }
+  return translationMap;
+}
 
-  const nonEmpty = texts.filter((t) => (t || "").trim().length > 0);
-  if (nonEmpty.length === 0) {
-    return {};
+function parseJsonMap(content: string): TranslationMap {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const match = content.match(/\{[\s\S]*\}/);
+    if (match) return JSON.parse(match[0]);
+    throw new Error("Invalid JSON response from model");
   }
+}
 
-  const lang = targetLanguage.toLowerCase();
-  const targetLang =
-    lang.includes("chinese") ||
-    lang.includes("中文") ||
-    lang === "zh" ||
-    lang.startsWith("zh")
-      ? "ZH"
-      : targetLanguage.toUpperCase();
-
-  const response = await fetch(DEEPL_API_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `DeepL-Auth-Key ${DEEPL_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      text: nonEmpty,
-      target_lang: targetLang,
-      source_lang: "EN",
-    }),
-  });
-
-  if (!response.ok) {
-    let body = "";
-    try {
-      body = await response.text();
-    } catch {
-      body = "";
-    }
-    throw new Error(
-      `DeepL API error: ${response.status} ${response.statusText}${
-        body ? ` - ${body}` : ""
-      }`
-    );
+async function errorBody(response: { text(): Promise<string> }): Promise<string> {
+  try {
+    const body = await response.text();
+    return body ? ` - ${body}` : "";
+  } catch {
+    return "";
   }
+}
 
-  const data = (await response.json()) as DeepLResponse;
+// OpenAI chat completions, also used for OpenAI-compatible local servers
+class OpenAIChatProvider implements TranslationProvider {
+  private client: OpenAI | null = null;
+  readonly promptVersion = OPENAI_PROMPT_VERSION;
+
+  constructor(
+    readonly name: string,
+    readonly model: string,
+    private apiKey: string | undefined,
+    private baseURL?: string
+  ) {}
+
+  isConfigured(): boolean {
+    // baseURL is undefined for api.openai.com and "" when a local endpoint isn't set
+    return !!this.apiKey && this.baseURL !== "";
+  }
 
-  const translationMap: TranslationMap = {};
-  nonEmpty.forEach((t, idx) => {
-    const translated = data.translations?.[idx]?.text;
-    translationMap[t] =
-      translated && translated.trim().length > 0 ? translated : t;
-  });
+  supports(): boolean {
+    return true;
+  }
 
-  for (const t of texts) {
-    if (!(t in translationMap) || !translationMap[t]) {
-      translationMap[t] = t;
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.apiKey!, baseURL: this.baseURL || undefined });
     }
+    return this.client;
   }
 
-  return translationMap;
-}
+  private async complete(
+    prompt: string,
+    temperature: number,
+    maxTokens: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (DEBUG_TRANSLATION) {
+      console.log(`   [debug] provider: ${this.name}, model: ${this.model}`);
+    }
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content:
+            "Return only valid JSON with original text as keys and translations as values. No extra text.",
+        },
+        { role: "user", content: prompt },
+      ],
+      temperature,
+      max_tokens: maxTokens,
+    }, { signal });
 
-export async function translateSequence(
-  texts: string[],
-  targetLanguage: string
-): Promise<TranslationMap> {
-  if (!Array.isArray(texts) || texts.length === 0) return {};
-  try {
-    const provider = pickProvider(targetLanguage);
-    if (provider === "deepl") {
-      if (DEBUG_TRANSLATION) {
-        try {
-          console.log("   [debug] provider: deepl");
-        } catch {}
-      }
-      return await translateWithDeepL(texts, targetLanguage);
+    const content = response.choices[0].message.content || "";
+    if (DEBUG_TRANSLATION) {
+      console.log("   [debug] translation raw length:", content.length);
+      console.log("   [debug] translation snippet:", content.slice(0, 300));
     }
+    return content;
+  }
 
+  async translateSequence(
+    texts: string[],
+    targetLanguage: string,
+    { signal, glossary, sourceLanguage }: TranslateContext = {}
+  ): Promise<TranslationMap> {
+    const source = sourceLanguageName(sourceLanguage);
     const languageInstructions =
-      getLanguageSpecificInstructions(targetLanguage);
+      getLanguageSpecificInstructions(targetLanguage) +
+      getGlossaryInstructions(texts, glossary);
     const numbered = texts
       .map((t, i) => ({ index: i + 1, text: t }))
       .filter((x) => (x.text || "").trim().length > 0);
     const prompt = `You are a professional subtitle/localization translator specializing in educational, step-based video content.
-You are given an ordered sequence of on-screen English lines. Translate them into natural, readable ${targetLanguage} suitable for bottom-center subtitles.
+You are given an ordered sequence of on-screen ${source} lines. Translate them into natural, readable ${targetLanguage} suitable for bottom-center subtitles.
 
 Rules:
 - Keep meaning and intent; do not translate brand names.
@@ -195,84 +269,22 @@ Return ONLY a valid JSON object mapping each original string to its translation:
 
 Sequence:\n${JSON.stringify(numbered)}`;
 
-    if (DEBUG_TRANSLATION) {
-      try {
-        console.log(`   [debug] provider: openai, model: ${OPENAI_MODEL}`);
-      } catch {}
-    }
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content:
-            "Return only valid JSON with original text as keys and translations as values. No extra text.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.2,
-      max_tokens: 3000,
-    });
-
-    const content = response.choices[0].message.content!;
-    if (DEBUG_TRANSLATION) {
-      console.log(
-        "   [debug] sequence translation raw length:",
-        content.length
-      );
-      console.log(
-        "   [debug] sequence translation snippet:",
-        content.slice(0, 300)
-      );
-    }
-
-    let translationMap: TranslationMap;
-    try {
-      translationMap = JSON.parse(content);
-    } catch {
-      const match = content.match(/\{[\s\S]*\}/);
-      if (match) translationMap = JSON.parse(match[0]);
-      else throw new Error("Invalid JSON response from OpenAI");
-    }
-    for (const t of texts) {
-      if (!(t in translationMap) || !translationMap[t]) translationMap[t] = t;
-    }
-    return translationMap;
-  } catch (error) {
-    console.error("Sequence translation error:", (error as Error).message);
-    throw new Error(
-      `Failed to translate sequence: ${(error as Error).message}`
-    );
-  }
-}
-
-/**
- * Translate texts using OpenAI
- */
-export async function translateTexts(
-  texts: string[],
-  targetLanguage: string
-): Promise<TranslationMap> {
-  if (texts.length === 0) {
-    return {};
+    const content = await this.complete(prompt, 0.2, 3000, signal);
+    return fillMissing(texts, parseJsonMap(content));
   }
 
-  try {
-    const provider = pickProvider(targetLanguage);
-    if (provider === "deepl") {
-      if (DEBUG_TRANSLATION) {
-        try {
-          console.log("   [debug] provider: deepl");
-        } catch {}
-      }
-      return await translateWithDeepL(texts, targetLanguage);
-    }
-
+  async translateTexts(
+    texts: string[],
+    targetLanguage: string,
+    { signal, glossary, sourceLanguage }: TranslateContext = {}
+  ): Promise<TranslationMap> {
+    const source = sourceLanguageName(sourceLanguage);
     const languageInstructions =
-      getLanguageSpecificInstructions(targetLanguage);
+      getLanguageSpecificInstructions(targetLanguage) +
+      getGlossaryInstructions(texts, glossary);
 
     const prompt = `You are a professional subtitle/localization translator specializing in video content.
-Translate the following on-screen English texts into natural, readable ${targetLanguage} suitable for video overlays.
+Translate the following on-screen ${source} texts into natural, readable ${targetLanguage} suitable for video overlays.
 
 General Rules:
 - Keep meaning and intent; do not translate brand names.
@@ -282,7 +294,7 @@ General Rules:
 - Remove or skip emojis, ASCII art, and meaningless character combinations.
 - Keep translations concise to fit within the original bounding box.
 - If a string is meaningless (e.g., random letters), return the original.
-- DO NOT include or translate Arabic, Hebrew, or other non-Latin scripts that appear to be OCR errors.
+- DO NOT include or translate text in scripts that don't belong to the source text and appear to be OCR errors.
 - Prioritize natural, idiomatic expressions over literal translations.
 - Consider the video/sports context when choosing vocabulary.${languageInstructions}
 
@@ -292,56 +304,495 @@ Example format: {"Hello": "Hola", "World": "Mundo"}
 
 Texts to translate: ${JSON.stringify(texts)}`;
 
-    if (DEBUG_TRANSLATION) {
-      try {
-        console.log(`   [debug] provider: openai, model: ${OPENAI_MODEL}`);
-      } catch {}
-    }
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content:
-            "Return only valid JSON with original text as keys and translations as values. No extra text.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 2000,
-    });
+    const content = await this.complete(prompt, 0.3, 2000, signal);
+    return fillMissing(texts, parseJsonMap(content));
+  }
+}
+
+interface DeepLTranslation {
+  detected_source_language: string;
+  text: string;
+}
 
-    const content = response.choices[0].message.content!;
+interface DeepLResponse {
+  translations: DeepLTranslation[];
+}
 
-    if (DEBUG_TRANSLATION) {
-      console.log("   [debug] translation raw length:", content.length);
-      console.log("   [debug] translation snippet:", content.slice(0, 300));
+// DeepL target languages by ISO 639-1 code (regional defaults where DeepL needs one)
+const DEEPL_TARGETS: Record<string, string> = {
+  ar: "AR", bg: "BG", cs: "CS", da: "DA", de: "DE", el: "EL", en: "EN-US",
+  es: "ES", et: "ET", fi: "FI", fr: "FR", hu: "HU", id: "ID", it: "IT",
+  ja: "JA", ko: "KO", lt: "LT", lv: "LV", nb: "NB", nl: "NL", pl: "PL",
+  pt: "PT-BR", ro: "RO", ru: "RU", sk: "SK", sl: "SL", sv: "SV", tr: "TR",
+  uk: "UK", zh: "ZH-HANS",
+};
+
+function deeplTargetCode(targetLanguage: string): string | undefined {
+  const value = targetLanguage.trim().toLowerCase();
+  // Explicit regional variants DeepL knows
+  if (/^(en-gb|en-us|pt-pt|pt-br)$/.test(value)) return value.toUpperCase();
+  if (/traditional|繁體|^zh-(tw|hk|hant)/.test(value)) return "ZH-HANT";
+  const lang = findLanguage(targetLanguage);
+  return lang ? DEEPL_TARGETS[lang.code] : undefined;
+}
+
+// DeepL source languages are the target codes without regional variants
+function deeplSourceCode(sourceLanguage?: string): string | undefined {
+  const lang = sourceLanguage ? findLanguage(sourceLanguage) : undefined;
+  return lang && DEEPL_TARGETS[lang.code] ? lang.code.toUpperCase() : undefined;
+}
+
+class DeepLProvider implements TranslationProvider {
+  readonly name = "deepl";
+  readonly model = "v2";
+  readonly promptVersion = "1";
+  // DeepL glossaries are immutable, so one is created per glossary version
+  // and language pair. They are named after both, so a restarted process
+  // finds the existing one instead of creating another.
+  private glossaryIds = new Map<string, Promise<string | undefined>>();
+
+  isConfigured(): boolean {
+    return !!DEEPL_API_KEY;
+  }
+
+  supports(targetLanguage: string): boolean {
+    return !!deeplTargetCode(targetLanguage);
+  }
+
+  private async deeplRequest(url: string, init: { method: string; body?: string; signal?: AbortSignal }) {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Authorization: `DeepL-Auth-Key ${DEEPL_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}${await errorBody(response)}`);
     }
+    return response;
+  }
+
+  // Glossary id for the language pair, or undefined if DeepL refused it
+  // (not every language pair supports glossaries)
+  private glossaryId(
+    glossary: GlossaryTerms | undefined,
+    sourceLang: string | undefined,
+    targetLang: string
+  ): Promise<string | undefined> {
+    // DeepL only applies glossaries when the source language is given
+    if (!hasGlossaryTerms(glossary) || !sourceLang) return Promise.resolve(undefined);
+    const target = targetLang.split("-")[0].toLowerCase();
+    const pair = `${sourceLang.toLowerCase()}-${target}`;
+    const prefix = `vtt:${glossary.id}:${pair}:`;
+    const name = `${prefix}${glossaryFingerprint(glossary)}`;
+
+    // Shared by concurrent jobs so they don't each create a copy. Not tied to
+    // any one job's abort signal, since the others may still need it.
+    let id = this.glossaryIds.get(name);
+    if (!id) {
+      id = this.findOrCreateGlossary(glossary, name, prefix, sourceLang, target);
+      this.glossaryIds.set(name, id);
+      // Failures are retried by the next job
+      id.then((value) => value === undefined && this.glossaryIds.delete(name));
+    }
+    return id;
+  }
 
-    let translationMap: TranslationMap;
+  private async findOrCreateGlossary(
+    glossary: GlossaryTerms,
+    name: string,
+    prefix: string,
+    sourceLang: string,
+    target: string
+  ): Promise<string | undefined> {
     try {
-      translationMap = JSON.parse(content);
-    } catch {
-      const match = content.match(/\{[\s\S]*\}/);
-      if (match) {
-        translationMap = JSON.parse(match[0]);
-      } else {
-        throw new Error("Invalid JSON response from OpenAI");
+      const listed = (await (
+        await this.deeplRequest(DEEPL_GLOSSARIES_URL, { method: "GET" })
+      ).json()) as { glossaries?: { glossary_id: string; name: string }[] };
+      const versions = (listed.glossaries || []).filter((g) => g.name.startsWith(prefix));
+      const existing = versions.find((g) => g.name === name);
+
+      // Older versions of this glossary for the pair are never used again
+      for (const old of versions) {
+        if (old.name === name) continue;
+        await this.deeplRequest(`${DEEPL_GLOSSARIES_URL}/${old.glossary_id}`, { method: "DELETE" })
+          .then(() => console.log(`   🗑️  Deleted superseded DeepL glossary ${old.name}`))
+          .catch((error) =>
+            console.warn(`   ⚠️  Could not delete DeepL glossary ${old.name}: ${error.message}`)
+          );
       }
+      if (existing) return existing.glossary_id;
+
+      const entries = new Map(Object.entries(glossary.terms));
+      for (const term of glossary.doNotTranslate) entries.set(term, term);
+      const created = (await (
+        await this.deeplRequest(DEEPL_GLOSSARIES_URL, {
+          method: "POST",
+          body: JSON.stringify({
+            name,
+            source_lang: sourceLang.toLowerCase(),
+            target_lang: target,
+            entries: Array.from(entries, ([source, out]) => `${source}\t${out}`).join("\n"),
+            entries_format: "tsv",
+          }),
+        })
+      ).json()) as { glossary_id: string };
+      return created.glossary_id;
+    } catch (error) {
+      console.warn(
+        `   ⚠️  DeepL glossary not created, translating without it: ${(error as Error).message}`
+      );
+      return undefined;
     }
+  }
 
-    for (const t of texts) {
-      if (!(t in translationMap) || !translationMap[t]) {
-        translationMap[t] = t;
+  async translateTexts(
+    texts: string[],
+    targetLanguage: string,
+    { signal, glossary, sourceLanguage }: TranslateContext = {}
+  ): Promise<TranslationMap> {
+    if (!DEEPL_API_KEY) {
+      throw new Error("DEEPL_API_KEY is not configured");
+    }
+    const targetLang = deeplTargetCode(targetLanguage);
+    if (!targetLang) {
+      throw new Error(`DeepL does not support target language: ${targetLanguage}`);
+    }
+    if (DEBUG_TRANSLATION) console.log(`   [debug] provider: deepl, target: ${targetLang}`);
+
+    const nonEmpty = texts.filter((t) => (t || "").trim().length > 0);
+    const translationMap: TranslationMap = {};
+    const sourceLang = deeplSourceCode(sourceLanguage);
+    const glossaryId =
+      nonEmpty.length > 0
+        ? await this.glossaryId(glossary, sourceLang, targetLang)
+        : undefined;
+
+    for (let i = 0; i < nonEmpty.length; i += DEEPL_BATCH_SIZE) {
+      const batch = nonEmpty.slice(i, i + DEEPL_BATCH_SIZE);
+      const response = await fetch(DEEPL_API_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `DeepL-Auth-Key ${DEEPL_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        signal,
+        body: JSON.stringify({
+          text: batch,
+          target_lang: targetLang,
+          source_lang: sourceLang, // omitted: DeepL detects it
+          glossary_id: glossaryId,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `DeepL API error: ${response.status} ${response.statusText}${await errorBody(response)}`
+        );
       }
+
+      const data = (await response.json()) as DeepLResponse;
+      batch.forEach((t, idx) => {
+        const translated = data.translations?.[idx]?.text;
+        translationMap[t] =
+          translated && translated.trim().length > 0 ? translated : t;
+      });
     }
 
-    return translationMap;
+    return fillMissing(texts, translationMap);
+  }
+
+  translateSequence(
+    texts: string[],
+    targetLanguage: string,
+    context?: TranslateContext
+  ): Promise<TranslationMap> {
+    return this.translateTexts(texts, targetLanguage, context);
+  }
+}
+
+// Self-hosted LibreTranslate (https://github.com/LibreTranslate/LibreTranslate)
+class LibreTranslateProvider implements TranslationProvider {
+  readonly name = "libretranslate";
+  readonly model = "default";
+  readonly promptVersion = "1";
+
+  isConfigured(): boolean {
+    return !!LIBRETRANSLATE_URL;
+  }
+
+  supports(targetLanguage: string): boolean {
+    return !!findLanguage(targetLanguage);
+  }
+
+  // No glossary support; outputs are still checked against it
+  async translateTexts(
+    texts: string[],
+    targetLanguage: string,
+    { signal, sourceLanguage }: TranslateContext = {}
+  ): Promise<TranslationMap> {
+    const lang = findLanguage(targetLanguage);
+    if (!lang) {
+      throw new Error(`Unknown target language for LibreTranslate: ${targetLanguage}`);
+    }
+    if (DEBUG_TRANSLATION) console.log(`   [debug] provider: libretranslate, target: ${lang.code}`);
+
+    const nonEmpty = texts.filter((t) => (t || "").trim().length > 0);
+    if (nonEmpty.length === 0) return fillMissing(texts, {});
+
+    const response = await fetch(`${LIBRETRANSLATE_URL}/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal,
+      body: JSON.stringify({
+        q: nonEmpty,
+        source: sourceLanguage || "auto",
+        target: lang.code,
+        format: "text",
+        api_key: LIBRETRANSLATE_API_KEY || undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `LibreTranslate error: ${response.status} ${response.statusText}${await errorBody(response)}`
+      );
+    }
+
+    const data = (await response.json()) as { translatedText?: string[] };
+    const translationMap: TranslationMap = {};
+    nonEmpty.forEach((t, idx) => {
+      translationMap[t] = data.translatedText?.[idx] || t;
+    });
+    return fillMissing(texts, translationMap);
+  }
+
+  translateSequence(
+    texts: string[],
+    targetLanguage: string,
+    context?: TranslateContext
+  ): Promise<TranslationMap> {
+    return this.translateTexts(texts, targetLanguage, context);
+  }
+}
+
+// Registry of providers by name
+const providers = new Map<string, TranslationProvider>();
+
+export function registerTranslationProvider(provider: TranslationProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getTranslationProvider(name: string): TranslationProvider | undefined {
+  return providers.get(name);
+}
+
+registerTranslationProvider(
+  new OpenAIChatProvider("openai", OPENAI_MODEL, process.env.OPENAI_API_KEY)
+);
+registerTranslationProvider(
+  new OpenAIChatProvider(
+    "openai-compatible",
+    OPENAI_COMPATIBLE_MODEL,
+    OPENAI_COMPATIBLE_API_KEY,
+    OPENAI_COMPATIBLE_BASE_URL
+  )
+);
+registerTranslationProvider(new DeepLProvider());
+registerTranslationProvider(new LibreTranslateProvider());
+
+function parseChain(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map((name) => (name === "ollama" ? "openai-compatible" : name));
+}
+
+// "zh=deepl,openai;*=openai" -> { zh: [...], "*": [...] }
+function parseRoutes(value: string): Record<string, string[]> {
+  const routes: Record<string, string[]> = {};
+  for (const rule of value.split(";")) {
+    const [lang, chain] = rule.split("=");
+    if (!lang?.trim() || !chain) continue;
+    const key = lang.trim() === "*" ? "*" : findLanguage(lang)?.code ?? lang.trim().toLowerCase();
+    routes[key] = parseChain(chain);
+  }
+  return routes;
+}
+
+const ROUTES = parseRoutes(TRANSLATION_ROUTES);
+
+/**
+ * Providers to try for a target language, in order: a TRANSLATION_ROUTES rule
+ * for the language, else TRANSLATION_PROVIDER. 'auto' prefers DeepL when it
+ * is configured and supports the language, then OpenAI.
+ */
+export function resolveProviderChain(targetLanguage: string): TranslationProvider[] {
+  const code = findLanguage(targetLanguage)?.code ?? targetLanguage.trim().toLowerCase();
+  const names =
+    ROUTES[code] ??
+    ROUTES["*"] ??
+    (TRANSLATION_PROVIDER === "auto"
+      ? ["deepl", "openai", "openai-compatible", "libretranslate"]
+      : parseChain(TRANSLATION_PROVIDER));
+
+  const chain: TranslationProvider[] = [];
+  for (const name of names) {
+    const provider = providers.get(name);
+    if (!provider) {
+      console.warn(`   ⚠️  Unknown translation provider "${name}" ignored`);
+      continue;
+    }
+    if (provider.isConfigured() && provider.supports(targetLanguage)) chain.push(provider);
+  }
+  if (chain.length === 0) {
+    throw new Error(`No translation provider configured for ${targetLanguage}`);
+  }
+  return chain;
+}
+
+export type TranslationMode = "texts" | "sequence";
+
+/**
+ * Translation memory scope for a provider's output. The same text can mean
+ * different things in different source languages, sequence mode sees the
+ * neighbouring lines and a glossary changes the wording, so each source
+ * language, mode and glossary version gets its own entries.
+ */
+export function translationScope(
+  provider: TranslationProvider,
+  targetLanguage: string,
+  mode: TranslationMode,
+  context: Pick<TranslateContext, "glossary" | "sourceLanguage"> = {}
+): TranslationScope {
+  // Unknown source languages share one "auto" scope, as the provider detects them
+  const source = (context.sourceLanguage && findLanguage(context.sourceLanguage)?.code) || "auto";
+  let promptVersion = `${provider.promptVersion}+src:${source}`;
+  if (mode === "sequence") promptVersion += "+seq";
+  if (hasGlossaryTerms(context.glossary)) {
+    promptVersion += `+g${glossaryFingerprint(context.glossary)}`;
+  }
+  return { targetLanguage, provider: provider.name, model: provider.model, promptVersion };
+}
+
+/**
+ * Translate through the translation memory: cached phrases are reused and
+ * only the misses are sent to the provider.
+ */
+async function translateWithMemory(
+  provider: TranslationProvider,
+  method: "translateTexts" | "translateSequence",
+  texts: string[],
+  targetLanguage: string,
+  context: TranslateContext
+): Promise<TranslationMap> {
+  const mode = method === "translateSequence" ? "sequence" : "texts";
+  const scope = translationScope(provider, targetLanguage, mode, context);
+  const sources = Array.from(new Set(texts.filter((t) => t && t.trim())));
+  const cached = await lookupTranslations(scope, sources);
+  const misses = sources.filter((t) => !(t in cached));
+
+  if (sources.length > 0 && misses.length < sources.length) {
+    console.log(
+      `   💾 Translation memory: ${sources.length - misses.length}/${sources.length} cached (${provider.name})`
+    );
+  }
+  if (misses.length === 0) return fillMissing(texts, cached);
+
+  const fresh = await provider[method](misses, targetLanguage, context);
+
+  // Untranslated fallbacks (output equal to input) are not worth remembering
+  const learned: TranslationMap = {};
+  for (const text of misses) {
+    if (fresh[text] && fresh[text] !== text) learned[text] = fresh[text];
+  }
+  await storeTranslations(scope, learned);
+
+  return fillMissing(texts, { ...fresh, ...cached });
+}
+
+// Try each provider in turn until one succeeds
+async function translateWithFallback(
+  method: "translateTexts" | "translateSequence",
+  texts: string[],
+  targetLanguage: string,
+  context: TranslateContext
+): Promise<TranslationMap> {
+  let lastError: Error | undefined;
+  for (const provider of resolveProviderChain(targetLanguage)) {
+    try {
+      return await translateWithMemory(provider, method, texts, targetLanguage, context);
+    } catch (error) {
+      if (isAbortError(error, context.signal)) throw error;
+      lastError = error as Error;
+      console.error(`   ⚠️  ${provider.name} translation failed: ${lastError.message}`);
+    }
+  }
+  throw lastError;
+}
+
+export async function translateSequence(
+  texts: string[],
+  targetLanguage: string,
+  context: TranslateContext = {}
+): Promise<TranslationMap> {
+  if (!Array.isArray(texts) || texts.length === 0) return {};
+  try {
+    return await translateWithFallback("translateSequence", texts, targetLanguage, context);
+  } catch (error) {
+    if (isAbortError(error, context.signal)) throw error;
+    console.error("Sequence translation error:", (error as Error).message);
+    throw new Error(
+      `Failed to translate sequence: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Translate texts with the provider chain for the target language
+ */
+export async function translateTexts(
+  texts: string[],
+  targetLanguage: string,
+  context: TranslateContext = {}
+): Promise<TranslationMap> {
+  if (texts.length === 0) {
+    return {};
+  }
+
+  try {
+    return await translateWithFallback("translateTexts", texts, targetLanguage, context);
   } catch (error) {
+    if (isAbortError(error, context.signal)) throw error;
     console.error("Translation error:", (error as Error).message);
     throw new Error(`Failed to translate texts: ${(error as Error).message}`);
   }
 }
+
+export type GlossaryViolation = {
+  originalText: string;
+  translatedText: string;
+  issues: string[];
+};
+
+/**
+ * Check translations against the glossary and list the lines that don't
+ * respect it, so they can be flagged for review
+ */
+export function checkGlossaryCompliance(
+  translations: TranslationMap,
+  glossary?: GlossaryTerms
+): GlossaryViolation[] {
+  if (!hasGlossaryTerms(glossary)) return [];
+  const violations: GlossaryViolation[] = [];
+  for (const [originalText, translatedText] of Object.entries(translations)) {
+    const issues = findGlossaryViolations(originalText, translatedText, glossary);
+    if (issues.length > 0) violations.push({ originalText, translatedText, issues });
+  }
+  if (violations.length > 0) {
+    console.warn(`   ⚠️  ${violations.length} line(s) don't follow the glossary`);
+  }
+  return violations;
+}
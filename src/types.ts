@@ -1,7 +1,9 @@
 export interface FrameInfo {
   path: string;
   name: string;
-  frameNumber: number;
+  frameNumber: number; // 1-based position in the sampled sequence
+  timestamp: number; // presentation time in seconds
+  duration: number; // seconds until the next sample, or the end of the video
 }
 
 export interface TextBox {
@@ -11,16 +13,47 @@ export interface TextBox {
   width: number;
   height: number;
   fontSize: number;
+  confidence?: number; // 0-1, when the OCR provider reports one
   translatedText?: string;
 }
 
 export interface DetectionFrame {
-  framePath: string;
+  framePath: string; // empty when the frame was not extracted (OCR cache hit)
   frameName: string;
   frameNumber: number;
+  timestamp: number;
+  duration: number;
   texts: TextBox[];
+  reusedFrom?: number; // frameNumber whose OCR results were reused for this similar frame
+  error?: string; // OCR still failed after retries; texts is empty
 }
 
-export interface GroupedFrame extends DetectionFrame {}
+export type GroupedFrame = DetectionFrame;
 
 export type TranslationMap = Record<string, string>;
+
+// Where a line of on-screen text sits, in video pixels
+export interface TextRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One timed subtitle event, as burned into the video
+export interface SubtitleSegment {
+  start: number; // seconds
+  end: number; // seconds
+  originalText: string; // OCR text the translation came from
+  translatedText: string;
+  box?: TextRegion; // in-place placement: the original text's line box
+}
+
+export type PipelineStage = 'extracting' | 'ocr' | 'grouping' | 'translating' | 'encoding';
+
+export interface ProgressUpdate {
+  stage: PipelineStage;
+  progress: number; // overall 0-100
+  current?: number; // e.g. frame N ...
+  total?: number; // ... of M
+}
@@ -2,6 +2,7 @@ import ffmpeg from 'fluent-ffmpeg';
 import dotenv from 'dotenv';
 import { existsSync } from 'fs';
 import type { GroupedFrame } from './types.js';
+import { sampleSpan } from './frameExtractor.js';
 
 dotenv.config();
 
@@ -98,7 +99,7 @@ function xPositionExpr(textObj: { x: number; width: number }, isC: boolean): str
   return `${textObj.x}+(${textObj.width}-text_w)/2`;
 }
 
-function generateDrawtextFilter(textObj: { translatedText?: string; x: number; y: number; width: number; height: number; fontSize: number }, frameNumber: number): string | null {
+function generateDrawtextFilter(textObj: { translatedText?: string; x: number; y: number; width: number; height: number; fontSize: number }, span: { start: number; end: number }): string | null {
   if (!textObj.translatedText) return null;
 
   const { wrapped, lines, fitted, isC } = layoutForText(textObj);
@@ -110,8 +111,8 @@ function generateDrawtextFilter(textObj: { translatedText?: string; x: number; y
     .replace(/\]/g, '\\]')
     .replace(/\n/g, '\\n');
 
-  const startTime = frameNumber - 1;
-  const endTime = frameNumber;
+  const startTime = span.start;
+  const endTime = span.end;
 
   const fontfileParam = FONT_FILE ? `fontfile='${FONT_FILE.replace(/'/g, "\\'")}':` : '';
   const lineSpacingPx = Math.round(fitted * (isC ? CJK_LINE_SPACING : LATIN_LINE_SPACING));
@@ -138,7 +139,7 @@ function generateDrawtextFilter(textObj: { translatedText?: string; x: number; y
     `enable='between(t,${startTime},${endTime})'`;
 }
 
-function generateDrawboxFilter(textObj: { translatedText?: string; x: number; y: number; width: number; height: number; fontSize: number }, frameNumber: number): string | null {
+function generateDrawboxFilter(textObj: { translatedText?: string; x: number; y: number; width: number; height: number; fontSize: number }, span: { start: number; end: number }): string | null {
   if (!textObj.translatedText) return null;
   const pad = Number.isFinite(BOX_PADDING) ? BOX_PADDING : 6;
   const x = Math.max(0, Math.round(textObj.x - pad));
@@ -149,8 +150,8 @@ function generateDrawboxFilter(textObj: { translatedText?: string; x: number; y:
   const lineHeight = Math.max(1, Math.round(fitted + lineSpacing));
   const textHeight = Math.max(textObj.height, lineCount * lineHeight - lineSpacing);
   const h = Math.round(textHeight + pad * 2);
-  const startTime = frameNumber - 1;
-  const endTime = frameNumber;
+  const startTime = span.start;
+  const endTime = span.end;
   const yReplace = Math.max(0, Math.round(textObj.y - pad));
   const yExpr = OVERLAY_MODE === 'subtitle'
     ? `${subtitleYExpr(textObj, h)}`
@@ -165,9 +166,10 @@ export async function overlayTranslatedText(inputPath: string, translatedFrames:
     translatedFrames.forEach((frame) => {
       if (!frame.texts || frame.texts.length === 0) return;
 
+      const span = sampleSpan(frame);
       frame.texts.forEach((textObj) => {
-        const box = generateDrawboxFilter(textObj, frame.frameNumber);
-        const text = generateDrawtextFilter(textObj, frame.frameNumber);
+        const box = generateDrawboxFilter(textObj, span);
+        const text = generateDrawtextFilter(textObj, span);
         if (box) filters.push(box);
         if (text) filters.push(text);
       });
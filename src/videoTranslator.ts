@@ -6,6 +6,7 @@ import { extractFrames, getVideoDuration } from './frameExtractor.js';
 import { detectTextInFrames } from './ocrService.js';
 import { translateTexts } from './translationService.js';
 import { overlayTranslatedText } from './videoComposer.js';
+import { lineConfidence, stabilizeLines } from './lineTracking.js';
 import dotenv from 'dotenv';
 import type { FrameInfo, DetectionFrame, GroupedFrame, TranslationMap } from './types.js';
 
@@ -57,10 +58,18 @@ function groupTextsIntoLines(frame: DetectionFrame): GroupedFrame {
     const height = maxY - minY;
     const fontSize = Math.round(Math.max(...sorted.map((i) => i.fontSize || Math.round(i.height * 0.8))));
     const original = sorted.map((i) => i.text).join(' ');
-    return { text: original, x: minX, y: minY, width, height, fontSize };
+    const confidence = lineConfidence(sorted);
+    return { text: original, x: minX, y: minY, width, height, fontSize, confidence };
   });
 
-  return { framePath: frame.framePath, frameName: frame.frameName, frameNumber: frame.frameNumber, texts: groups };
+  return {
+    framePath: frame.framePath,
+    frameName: frame.frameName,
+    frameNumber: frame.frameNumber,
+    timestamp: frame.timestamp,
+    duration: frame.duration,
+    texts: groups,
+  };
 }
 
 /**
@@ -126,21 +135,24 @@ function filterSubtitleLike(frames: GroupedFrame[]): GroupedFrame[] {
 
   if (!requirePersistence) return prelim;
 
-  const occurrences = new Map<string, number[]>();
+  const occurrences = new Map<string, GroupedFrame[]>();
   for (const f of prelim) {
     for (const t of f.texts) {
       if (!t.text) continue;
       const arr = occurrences.get(t.text) || [];
-      arr.push(f.frameNumber);
+      arr.push(f);
       occurrences.set(t.text, arr);
     }
   }
 
+  // Text must stay on screen for more than a second over consecutive samples
   const keepTexts = new Set<string>();
   occurrences.forEach((framesArr, text) => {
-    const sorted = framesArr.slice().sort((a, b) => a - b);
-    for (let i = 1; i < sorted.length; i++) {
-      if (sorted[i] === sorted[i - 1] + 1) {
+    const sorted = framesArr.slice().sort((a, b) => a.frameNumber - b.frameNumber);
+    let runStart = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      if (i > 0 && sorted[i].frameNumber !== sorted[i - 1].frameNumber + 1) runStart = i;
+      if (sorted[i].timestamp + sorted[i].duration - sorted[runStart].timestamp > 1) {
         keepTexts.add(text);
         break;
       }
@@ -160,6 +172,8 @@ export interface TranslationResult {
   workDir: string;
   stats: {
     framesProcessed: number;
+    ocrCallsSaved: number;
+    ocrFailedFrames: number;
     textsDetected: number;
     translationsApplied: number;
     processingTime: string;
@@ -179,14 +193,14 @@ export async function translateVideo(videoPath: string, targetLanguage: string):
     await fs.mkdir(workDir, { recursive: true });
     await fs.mkdir(`${workDir}/frames`, { recursive: true });
 
-    console.log('🎞️  Step 1: Extracting frames (1 fps)...');
+    console.log('🎞️  Step 1: Extracting frames...');
     const frames: FrameInfo[] = await extractFrames(videoPath, `${workDir}/frames`);
     console.log(`   ✅ Extracted ${frames.length} frames`);
     const durationSec = Math.round(await getVideoDuration(videoPath));
     const SKIP_INTRO_SECONDS = Number(process.env.SKIP_INTRO_SECONDS || 0);
     const SKIP_OUTRO_SECONDS = Number(process.env.SKIP_OUTRO_SECONDS || 0);
     const filteredFrames = frames.filter((f) => {
-      const t = f.frameNumber - 1;
+      const t = f.timestamp;
       if (t < SKIP_INTRO_SECONDS) return false;
       if (SKIP_OUTRO_SECONDS > 0 && t >= Math.max(0, durationSec - SKIP_OUTRO_SECONDS)) return false;
       return true;
@@ -198,12 +212,20 @@ export async function translateVideo(videoPath: string, targetLanguage: string):
     console.log('🔍 Step 2: Detecting text with OCR...');
     const detections: DetectionFrame[] = await detectTextInFrames(filteredFrames);
     console.log(`   ✅ Detected text in ${detections.filter((d) => d.texts.length > 0).length} frames`);
+    const ocrFailedFrames = detections.filter((d) => d.error !== undefined).length;
+    if (ocrFailedFrames > 0) {
+      const message = `${ocrFailedFrames} of ${detections.length} frames could not be OCR'd`;
+      if (ocrFailedFrames === detections.length || process.env.OCR_FAIL_ON_ERROR === '1') {
+        throw new Error(message);
+      }
+      console.warn(`   ⚠️  ${message}`);
+    }
     if (process.env.DEBUG_OCR === '1') {
       await fs.writeFile(`${workDir}/detections.json`, JSON.stringify(detections, null, 2));
     }
 
     console.log('📝 Step 3: Grouping OCR words into lines...');
-    const groupedFrames: GroupedFrame[] = detections.map(groupTextsIntoLines);
+    const groupedFrames: GroupedFrame[] = stabilizeLines(detections.map(groupTextsIntoLines));
     if (process.env.DEBUG_OCR === '1') {
       await fs.writeFile(`${workDir}/grouped.json`, JSON.stringify(groupedFrames, null, 2));
     }
@@ -254,6 +276,8 @@ export async function translateVideo(videoPath: string, targetLanguage: string):
       workDir,
       stats: {
         framesProcessed: filteredFrames.length,
+        ocrCallsSaved: detections.filter((d) => d.reusedFrom !== undefined).length,
+        ocrFailedFrames,
         textsDetected: uniquePhrases.size,
         translationsApplied: Object.keys(translationMap).length,
         processingTime: `${duration}s`,
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import fetch from 'node-fetch';
+import dotenv from 'dotenv';
+import { jobManager } from './jobManager.js';
+import type { Job, WebhookAttempt } from './jobManager.js';
+
+dotenv.config();
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS || 5));
+const WEBHOOK_RETRY_BASE_MS = Math.max(100, Number(process.env.WEBHOOK_RETRY_BASE_MS || 2000));
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10000);
+// Used to build absolute download URLs in payloads (e.g. https://api.example.com)
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+// Set to 1 to allow callbacks to localhost and private networks (local development)
+const WEBHOOK_ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === '1';
+
+// Loopback, link-local, private and other non-public ranges a callback may not reach
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded.
+ * Receivers recompute it with the shared secret and compare.
+ */
+export function signWebhookPayload(body: string, timestamp: number): string {
+  return crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges too
+function isBlockedAddress(address: string): boolean {
+  if (WEBHOOK_ALLOW_PRIVATE) return false;
+  const family = net.isIP(address);
+  if (!family) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// dns.lookup that refuses hosts resolving to a blocked address, so a callback
+// host can't be re-pointed at the internal network after it was validated
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, options, (error: NodeJS.ErrnoException | null, address: any, family?: number) => {
+    if (error) return callback(error, address, family);
+    const addresses: string[] = Array.isArray(address) ? address.map((a) => a.address) : [address];
+    if (addresses.some(isBlockedAddress)) {
+      return callback(new Error(`${hostname} resolves to a non-public address`), address, family);
+    }
+    callback(null, address, family);
+  });
+}) as unknown as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const httpsAgent = new https.Agent({ lookup: publicLookup });
+
+/**
+ * Why a callback URL can't be used, or null if it can. It must be http(s),
+ * its host must resolve only to public addresses, and WEBHOOK_SECRET must be
+ * set so receivers can trust the signature.
+ */
+export async function callbackUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'callbackUrl must be an http(s) URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'callbackUrl must be an http(s) URL';
+  }
+  if (!WEBHOOK_SECRET) {
+    return 'Webhooks are disabled: WEBHOOK_SECRET is not configured';
+  }
+  if (WEBHOOK_ALLOW_PRIVATE) return null;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'callbackUrl must point to a public host';
+  }
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return `callbackUrl host ${host} could not be resolved`;
+  }
+  return addresses.some(isBlockedAddress) ? 'callbackUrl must point to a public host' : null;
+}
+
+function buildPayload(job: Job) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    targetLanguage: job.targetLanguage,
+    stats: job.stats,
+    error: job.error,
+    lastRenderError: job.lastRenderError,
+    downloadUrl:
+      job.status === 'completed' && job.outputPath
+        ? `${PUBLIC_BASE_URL}/api/download/${job.id}`
+        : undefined,
+    childIds: job.childIds,
+    finishedAt: job.updatedAt,
+  };
+}
+
+// Retry network errors, timeouts, 408, 429 and 5xx; other 4xx are final
+function isRetryable(statusCode?: number): boolean {
+  if (statusCode === undefined) return true;
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+async function attemptDelivery(url: string, body: string): Promise<WebhookAttempt> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'video-text-translator-webhook/1.0',
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(body, timestamp)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      agent: (parsed) => (parsed.protocol === 'http:' ? httpAgent : httpsAgent),
+      // A redirect could lead to an internal address; the receiver must answer itself
+      redirect: 'manual',
+    });
+    return {
+      at: started,
+      statusCode: response.status,
+      ok: response.ok,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      at: started,
+      ok: false,
+      error: (error as Error).message,
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+/**
+ * POST the job's final state to its callback URL, retrying with exponential
+ * backoff. Every attempt is recorded on the job.
+ */
+export async function deliverJobWebhook(jobId: string): Promise<void> {
+  const job = await jobManager.getJob(jobId);
+  if (!job?.webhook?.url) return;
+
+  // Checked again at delivery: the secret or DNS may have changed since upload
+  const refused = await callbackUrlError(job.webhook.url);
+  if (refused) {
+    console.error(`❌ Webhook for ${jobId} not sent: ${refused}`);
+    await jobManager.updateJob(jobId, {
+      webhook: {
+        url: job.webhook.url,
+        status: 'failed',
+        attempts: [{ at: Date.now(), ok: false, error: refused, durationMs: 0 }],
+      },
+    });
+    return;
+  }
+
+  const body = JSON.stringify(buildPayload(job));
+  const attempts: WebhookAttempt[] = [];
+
+  for (let i = 0; i < WEBHOOK_MAX_ATTEMPTS; i++) {
+    const attempt = await attemptDelivery(job.webhook.url, body);
+    attempts.push(attempt);
+
+    const done = attempt.ok || !isRetryable(attempt.statusCode) || i === WEBHOOK_MAX_ATTEMPTS - 1;
+    await jobManager.updateJob(jobId, {
+      webhook: {
+        url: job.webhook.url,
+        status: attempt.ok ? 'delivered' : done ? 'failed' : 'retrying',
+        attempts: attempts.slice(),
+      },
+    });
+    if (done) {
+      if (attempt.ok) console.log(`📨 Webhook for ${jobId} delivered (${attempt.statusCode})`);
+      else console.error(`❌ Webhook for ${jobId} failed after ${attempts.length} attempt(s)`);
+      return;
+    }
+
+    const delay = WEBHOOK_RETRY_BASE_MS * 2 ** i;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
@@ -0,0 +1,142 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Read by the modules at load time, so set before importing them
+Object.assign(process.env, {
+  DB_TYPE: 'memory',
+  REFINE_TIMING: '0',
+  TRANSLATION_PROVIDER: 'stub',
+  TRANSLATION_MEMORY: '0',
+});
+
+// Node 20's test runner can garble a test file's results when they are
+// interleaved with a lot of console output, so the pipeline's logs are muted
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+mock.method(console, 'warn', () => {});
+
+const { renderChildLanguages } = await import('../src/fanOut.js');
+const { jobManager } = await import('../src/jobManager.js');
+const { jobQueue } = await import('../src/jobQueue.js');
+const { registerTranslationProvider } = await import('../src/translationService.js');
+const { throwIfAborted } = await import('../src/abort.js');
+
+// Called with the target language before each translation
+let onTranslate: (targetLanguage: string) => void = () => {};
+
+registerTranslationProvider({
+  name: 'stub',
+  model: 'echo',
+  promptVersion: '1',
+  isConfigured: () => true,
+  supports: () => true,
+  async translateTexts(texts, targetLanguage, context) {
+    onTranslate(targetLanguage);
+    throwIfAborted(context?.signal);
+    return Object.fromEntries(texts.map((t) => [t, `${t} (${targetLanguage})`]));
+  },
+  async translateSequence(texts, targetLanguage, context) {
+    return this.translateTexts(texts, targetLanguage, context);
+  },
+});
+
+async function setup(languages: string[]) {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fan-out-test-'));
+  const parent = await jobManager.createJob(languages.join(','));
+  const children = [];
+  for (const language of languages) {
+    children.push(await jobManager.createJob(language, undefined, { parentId: parent.id }));
+  }
+  const analysis = {
+    absoluteVideoPath: path.join(workDir, 'video.mp4'),
+    workDir,
+    framesProcessed: 2,
+    ocrCallsSaved: 0,
+    ocrFailedFrames: 0,
+    ocrCached: false,
+    framesExtracted: false,
+    sourceLanguage: 'en',
+    subtitleFrames: [0, 1].map((i) => ({
+      framePath: path.join(workDir, `frame_${i + 1}.png`),
+      frameName: `frame_${i + 1}.png`,
+      frameNumber: i + 1,
+      timestamp: i,
+      duration: 1,
+      texts: [{ text: 'See you soon', x: 100, y: 600, width: 300, height: 40, fontSize: 32 }],
+    })),
+  };
+  return { workDir, children, analysis };
+}
+
+test('cancelling one language leaves the others to complete', async () => {
+  const { workDir, children, analysis } = await setup(['Spanish', 'German', 'French']);
+  const [spanish, german, french] = children;
+  const parent = new AbortController();
+  // What DELETE /api/jobs/:id does for a child job
+  onTranslate = (language) => {
+    if (language !== 'German') return;
+    jobQueue.cancel(german.id);
+    void jobManager.setJobCancelled(german.id);
+  };
+
+  try {
+    const dirs = await renderChildLanguages(analysis, children, { subtitlesOnly: true }, parent.signal);
+
+    assert.equal(parent.signal.aborted, false);
+    assert.deepEqual(dirs, [path.join(workDir, 'lang_1'), path.join(workDir, 'lang_3')]);
+    assert.equal((await jobManager.getJob(spanish.id))?.status, 'completed');
+    assert.equal((await jobManager.getJob(german.id))?.status, 'cancelled');
+    assert.equal((await jobManager.getJob(french.id))?.status, 'completed');
+    await assert.rejects(fs.access(path.join(workDir, 'lang_2')));
+  } finally {
+    onTranslate = () => {};
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+test('cancelling the whole job stops at the current language', async () => {
+  const { workDir, children, analysis } = await setup(['Spanish', 'German']);
+  const parent = new AbortController();
+  onTranslate = () => parent.abort();
+
+  try {
+    await assert.rejects(
+      renderChildLanguages(analysis, children, { subtitlesOnly: true }, parent.signal),
+      { name: 'AbortError' }
+    );
+    // Left for the caller, which cancels every unfinished language
+    assert.equal((await jobManager.getJob(children[0].id))?.status, 'queued');
+    assert.equal((await jobManager.getJob(children[1].id))?.status, 'queued');
+  } finally {
+    onTranslate = () => {};
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+test('a failing language is marked failed and the rest continue', async () => {
+  const { workDir, children, analysis } = await setup(['Spanish', 'German']);
+  onTranslate = (language) => {
+    if (language === 'Spanish') throw new Error('provider down');
+  };
+
+  try {
+    const dirs = await renderChildLanguages(
+      analysis,
+      children,
+      { subtitlesOnly: true },
+      new AbortController().signal
+    );
+
+    assert.deepEqual(dirs, [path.join(workDir, 'lang_2')]);
+    const failed = await jobManager.getJob(children[0].id);
+    assert.equal(failed?.status, 'failed');
+    assert.match(failed?.error ?? '', /provider down/);
+    assert.equal((await jobManager.getJob(children[1].id))?.status, 'completed');
+  } finally {
+    onTranslate = () => {};
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
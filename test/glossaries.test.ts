@@ -0,0 +1,89 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read by the modules at load time, so set before importing them
+Object.assign(process.env, {
+  DB_TYPE: 'memory',
+  ADMIN_TOKEN: 'secret',
+  // Uploaded jobs fail straight away; only what the upload stored is checked
+  FFMPEG_PATH: '/nonexistent/ffmpeg',
+  FFPROBE_PATH: '/nonexistent/ffprobe',
+});
+
+// Node 20's test runner can garble a test file's results when they are
+// interleaved with a lot of console output, so the pipeline's logs are muted
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+mock.method(console, 'warn', () => {});
+
+const { default: app } = await import('../src/app.js');
+const { loadGlossaryTerms } = await import('../src/glossary.js');
+const { jobManager } = await import('../src/jobManager.js');
+
+const GLOSSARY = {
+  name: 'Acme',
+  terms: { es: { 'Hold position': 'Mantén la posición' } },
+  doNotTranslate: ['Acme'],
+};
+
+function request(method: string, path: string, token?: string, body?: object) {
+  return app.request(path, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: body && JSON.stringify(body),
+  });
+}
+
+test('creating and deleting glossaries needs the admin token', async () => {
+  assert.equal((await request('POST', '/api/glossaries', undefined, GLOSSARY)).status, 401);
+  assert.equal((await request('POST', '/api/glossaries', 'wrong', GLOSSARY)).status, 401);
+
+  const created = await request('POST', '/api/glossaries', 'secret', GLOSSARY);
+  assert.equal(created.status, 201);
+  const { glossary } = await created.json();
+
+  // Reading stays open, so uploads can pick a glossary
+  assert.equal((await request('GET', `/api/glossaries/${glossary.id}`)).status, 200);
+
+  assert.equal((await request('DELETE', `/api/glossaries/${glossary.id}`)).status, 401);
+  assert.equal((await request('GET', `/api/glossaries/${glossary.id}`)).status, 200);
+  assert.equal((await request('DELETE', `/api/glossaries/${glossary.id}`, 'secret')).status, 200);
+  assert.equal((await request('GET', `/api/glossaries/${glossary.id}`)).status, 404);
+});
+
+test('an upload keeps a copy of its glossary', async () => {
+  const { glossary } = await (await request('POST', '/api/glossaries', 'secret', GLOSSARY)).json();
+
+  const form = new FormData();
+  form.append('video', new File([new Uint8Array(16)], 'clip.mp4', { type: 'video/mp4' }));
+  form.append('targetLanguage', 'Spanish');
+  form.append('glossaryId', glossary.id);
+  form.append('options', JSON.stringify({ glossary: { terms: { es: { a: 'b' } } } }));
+  const res = await app.request('/api/upload', { method: 'POST', body: form });
+  assert.equal(res.status, 202);
+  const { jobId } = await res.json();
+
+  await request('DELETE', `/api/glossaries/${glossary.id}`, 'secret');
+  const job = await jobManager.getJob(jobId);
+  assert.equal(job?.options.glossaryId, glossary.id);
+  // The stored glossary, not one passed in the options
+  assert.deepEqual(job?.options.glossary, glossary);
+});
+
+test('a job translates with its copy of a glossary deleted since', async () => {
+  const created = await request('POST', '/api/glossaries', 'secret', GLOSSARY);
+  const { glossary } = await created.json();
+  await request('DELETE', `/api/glossaries/${glossary.id}`, 'secret');
+
+  assert.deepEqual(await loadGlossaryTerms({ glossaryId: glossary.id, glossary }, 'Spanish'), {
+    id: glossary.id,
+    terms: { 'Hold position': 'Mantén la posición' },
+    doNotTranslate: ['Acme'],
+  });
+  // Without a copy the glossary has to still exist
+  await assert.rejects(loadGlossaryTerms({ glossaryId: glossary.id }, 'Spanish'), /not found/);
+  assert.equal(await loadGlossaryTerms({}, 'Spanish'), undefined);
+});
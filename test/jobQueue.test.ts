@@ -0,0 +1,141 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read at load time, so set before importing
+Object.assign(process.env, { MAX_CONCURRENT_JOBS: '2', MAX_QUEUED_JOBS: '2' });
+
+// Failed jobs are logged by the queue
+mock.method(console, 'error', () => {});
+
+const { jobQueue } = await import('../src/jobQueue.js');
+
+// A job that runs until the test finishes it, recording when it started
+function task(started: string[]) {
+  let finish!: () => void;
+  let fail!: (error: Error) => void;
+  let signal!: AbortSignal;
+  const done = new Promise<void>((resolve, reject) => {
+    finish = resolve;
+    fail = reject;
+  });
+  return {
+    run: (jobId: string) => (s: AbortSignal) => {
+      started.push(jobId);
+      signal = s;
+      return done;
+    },
+    finish,
+    fail,
+    get signal() {
+      return signal;
+    },
+  };
+}
+
+// Lets the queue's finally() handlers run and start the next jobs
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test('runs at most MAX_CONCURRENT_JOBS at once and starts waiting jobs in order', async () => {
+  const started: string[] = [];
+  const [a, b, c, d] = [task(started), task(started), task(started), task(started)];
+
+  assert.equal(jobQueue.enqueue('a', a.run('a')), 0);
+  assert.equal(jobQueue.enqueue('b', b.run('b')), 0);
+  assert.equal(jobQueue.enqueue('c', c.run('c')), 1);
+  assert.equal(jobQueue.enqueue('d', d.run('d')), 2);
+  assert.deepEqual(started, ['a', 'b']);
+  assert.deepEqual(jobQueue.getStats(), { concurrency: 2, running: 2, queued: 2, maxQueued: 2 });
+  assert.equal(jobQueue.isFull(), true);
+  assert.equal(jobQueue.getPosition('a'), 0);
+  assert.equal(jobQueue.getPosition('d'), 2);
+  assert.equal(jobQueue.getPosition('unknown'), null);
+
+  // A failed job frees its slot too
+  b.fail(new Error('boom'));
+  await settle();
+  assert.deepEqual(started, ['a', 'b', 'c']);
+  assert.equal(jobQueue.getPosition('d'), 1);
+
+  a.finish();
+  await settle();
+  assert.deepEqual(started, ['a', 'b', 'c', 'd']);
+  assert.equal(jobQueue.isFull(), false);
+
+  c.finish();
+  d.finish();
+  await settle();
+  assert.deepEqual(jobQueue.getStats(), { concurrency: 2, running: 0, queued: 0, maxQueued: 2 });
+});
+
+test('cancelling a waiting job drops it without running it', async () => {
+  const started: string[] = [];
+  const [a, b, c, d] = [task(started), task(started), task(started), task(started)];
+  jobQueue.enqueue('a', a.run('a'));
+  jobQueue.enqueue('b', b.run('b'));
+  jobQueue.enqueue('c', c.run('c'));
+  jobQueue.enqueue('d', d.run('d'));
+
+  assert.equal(jobQueue.cancel('c'), 'queued');
+  assert.equal(jobQueue.getPosition('c'), null);
+  assert.equal(jobQueue.getPosition('d'), 1);
+
+  // A running job is aborted and keeps its slot until it settles
+  assert.equal(jobQueue.cancel('a'), 'running');
+  assert.equal(a.signal.aborted, true);
+  assert.equal(b.signal.aborted, false);
+  assert.equal(jobQueue.getPosition('a'), 0);
+
+  a.finish();
+  b.finish();
+  await settle();
+  assert.deepEqual(started, ['a', 'b', 'd']);
+  assert.equal(jobQueue.cancel('c'), null);
+
+  d.finish();
+  await settle();
+  assert.equal(jobQueue.cancel('d'), null);
+});
+
+test('a subtask is aborted with its parent or on its own until released', async () => {
+  const parent = new AbortController();
+  const first = jobQueue.subtask('es', parent.signal);
+  const second = jobQueue.subtask('fr', parent.signal);
+
+  // Cancelling one language leaves the parent and the other language running
+  assert.equal(jobQueue.cancel('es'), 'running');
+  assert.equal(first.signal.aborted, true);
+  assert.equal(second.signal.aborted, false);
+  assert.equal(parent.signal.aborted, false);
+
+  parent.abort();
+  assert.equal(second.signal.aborted, true);
+
+  first.release();
+  second.release();
+  assert.equal(jobQueue.cancel('es'), null);
+  assert.equal(jobQueue.cancel('fr'), null);
+
+  // Released subtasks no longer follow their parent
+  const parent2 = new AbortController();
+  const released = jobQueue.subtask('de', parent2.signal);
+  released.release();
+  parent2.abort();
+  assert.equal(released.signal.aborted, false);
+
+  // A subtask of an already aborted parent starts aborted
+  const late = jobQueue.subtask('it', parent.signal);
+  assert.equal(late.signal.aborted, true);
+  late.release();
+});
+
+test('releasing a replaced subtask leaves the newer one cancellable', () => {
+  const parent = new AbortController();
+  const old = jobQueue.subtask('pt', parent.signal);
+  const current = jobQueue.subtask('pt', parent.signal);
+  old.release();
+
+  assert.equal(jobQueue.cancel('pt'), 'running');
+  assert.equal(current.signal.aborted, true);
+  assert.equal(old.signal.aborted, false);
+  current.release();
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectLanguage, resolveSourceLanguage } from '../src/languages.js';
+
+const detect = (...texts: string[]) => detectLanguage(texts)?.code;
+
+test('detects Latin-script languages from their common words', () => {
+  assert.equal(detect('Welcome to the show', 'See you and your friends'), 'en');
+  assert.equal(detect('Das ist nicht mit der Bahn'), 'de');
+  assert.equal(detect('Merci pour votre visite', 'Vous êtes dans la salle'), 'fr');
+  assert.equal(detect('Los chicos del barrio', 'Vamos a la playa con el perro'), 'es');
+  assert.equal(detect('Obrigado, você é muito gentil', 'Vamos para casa com os amigos'), 'pt');
+  assert.equal(detect('Nie wiem, czy to jest dobre'), 'pl');
+});
+
+test('leaves short text undetected', () => {
+  assert.equal(detect(''), undefined);
+  assert.equal(detect('Hola'), undefined);
+  assert.equal(detect('CoreFlex 3000'), undefined);
+  // One stopword isn't enough
+  assert.equal(detect('Hold the line'), undefined);
+});
+
+test('ignores one-letter OCR noise', () => {
+  // Stray letters used to count as Spanish "y", Portuguese "o"/"e" and Polish "i"/"w"/"z"
+  assert.equal(detect('y o e i w z a'), undefined);
+  assert.equal(detect('| i | o | e |', 'w z'), undefined);
+  assert.equal(detect('Hold position', 'o o o e e e'), undefined);
+});
+
+test('leaves text undetected when a neighbouring language is as likely', () => {
+  // "que" and "para" are both Spanish and Portuguese
+  assert.equal(detect('que para'), undefined);
+  // Three Portuguese stopwords to two Spanish ones isn't a clear lead
+  assert.equal(detect('Acho que é para uma festa'), undefined);
+  assert.equal(detect('Es que para una vez'), 'es');
+});
+
+test('detects non-Latin scripts without common words', () => {
+  assert.equal(detect('こんにちは世界'), 'ja');
+  assert.equal(detect('你好世界'), 'zh');
+  assert.equal(detect('안녕하세요'), 'ko');
+  assert.equal(detect('Привет'), 'ru');
+  assert.equal(detect('Привіт, їжак'), 'uk');
+  assert.equal(detect('مرحبا'), 'ar');
+  assert.equal(detect('خوش آمدید، چطوری'), 'fa');
+});
+
+test('resolveSourceLanguage detects only for auto', () => {
+  assert.equal(resolveSourceLanguage('auto', ['Welcome to the show and more'])?.code, 'en');
+  assert.equal(resolveSourceLanguage(undefined, ['Hola'])?.code, undefined);
+  assert.equal(resolveSourceLanguage('Spanish', ['Welcome to the show and more'])?.code, 'es');
+});
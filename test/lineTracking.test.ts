@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read at load time, so set before importing; these are the defaults
+Object.assign(process.env, {
+  SUBTITLE_MERGE_SIMILARITY: '0.8',
+  SUBTITLE_MERGE_MIN_IOU: '0.3',
+  SUBTITLE_BRIDGE_SECONDS: '1',
+});
+
+const { boxIoU, lineConfidence, stabilizeLines, textSimilarity } = await import(
+  '../src/lineTracking.js'
+);
+
+const BOX = { x: 100, y: 600, width: 400, height: 40 };
+
+type Line = typeof BOX & { text: string; confidence?: number };
+
+// One frame per entry: [timestamp, duration, lines]
+function frames(...entries: [number, number, Line[]][]) {
+  return entries.map(([timestamp, duration, texts]) => ({ timestamp, duration, texts }));
+}
+
+function line(text: string, box: Partial<typeof BOX> = {}, confidence?: number): Line {
+  return { ...BOX, ...box, text, ...(confidence !== undefined && { confidence }) };
+}
+
+const texts = (result: { texts: Line[] }[]) => result.map((f) => f.texts.map((l) => l.text));
+
+test('textSimilarity is 1 minus the edit distance over the longer text', () => {
+  assert.equal(textSimilarity('Hold position', 'Hold position'), 1);
+  assert.equal(textSimilarity('Hold positon', 'Hold position'), 1 - 1 / 13);
+  assert.equal(textSimilarity('  HOLD   position ', 'hold position'), 1);
+  assert.equal(textSimilarity('', ''), 1);
+  assert.equal(textSimilarity('abc', ''), 0);
+  // Code points, not UTF-16 units
+  assert.equal(textSimilarity('😀😀', '😀😃'), 0.5);
+});
+
+test('boxIoU is intersection over union', () => {
+  const a = line('a');
+  assert.equal(boxIoU(a, a), 1);
+  assert.equal(boxIoU(a, line('b', { x: 500 })), 0);
+  // Half the width overlaps: 200 * 40 / (2 * 400 * 40 - 200 * 40)
+  assert.equal(boxIoU(a, line('b', { x: 300 })), 1 / 3);
+});
+
+test('lineConfidence averages the scored words', () => {
+  assert.equal(lineConfidence([{ confidence: 0.5 }, {}, { confidence: 1 }]), 0.75);
+  assert.equal(lineConfidence([{}, {}]), undefined);
+});
+
+test('readings at the similarity threshold merge into the most frequent one', () => {
+  // 8 of 10 characters in common: similarity 0.8
+  assert.equal(textSimilarity('abcdefghij', 'abcdefghXY'), 0.8);
+  const result = stabilizeLines(
+    frames(
+      [0, 0.5, [line('abcdefghij')]],
+      [0.5, 0.5, [line('abcdefghXY')]],
+      [1, 0.5, [line('abcdefghij')]]
+    )
+  );
+  assert.deepEqual(texts(result), [['abcdefghij'], ['abcdefghij'], ['abcdefghij']]);
+});
+
+test('readings below the similarity threshold stay apart', () => {
+  // 7 of 10 characters in common: similarity 0.7
+  const result = stabilizeLines(
+    frames([0, 0.5, [line('abcdefghij')]], [0.5, 0.5, [line('abcdefgXYZ')]])
+  );
+  assert.deepEqual(texts(result), [['abcdefghij'], ['abcdefgXYZ']]);
+});
+
+test('readings whose boxes overlap less than the IoU threshold stay apart', () => {
+  const linked = stabilizeLines(
+    frames([0, 0.5, [line('Hold position')]], [0.5, 0.5, [line('Hold positon', { x: 300 })]])
+  );
+  // IoU 1/3 is enough
+  assert.deepEqual(texts(linked), [['Hold position'], ['Hold position']]);
+
+  // 150 of 400 pixels wide overlap: IoU 150 / 650, below 0.3
+  const apart = stabilizeLines(
+    frames([0, 0.5, [line('Hold position')]], [0.5, 0.5, [line('Hold positon', { x: 350 })]])
+  );
+  assert.deepEqual(texts(apart), [['Hold position'], ['Hold positon']]);
+});
+
+test('ties between readings go to the higher confidence', () => {
+  const result = stabilizeLines(
+    frames(
+      [0, 0.5, [line('Hold positon', {}, 0.6)]],
+      [0.5, 0.5, [line('Hold position', {}, 0.9)]]
+    )
+  );
+  assert.deepEqual(texts(result), [['Hold position'], ['Hold position']]);
+});
+
+test('a short gap is bridged when the caption shows again in place', () => {
+  const result = stabilizeLines(
+    frames(
+      [0, 0.25, [line('Hold position')]],
+      [0.25, 0.25, []],
+      [0.5, 0.25, []],
+      [0.75, 0.25, [line('Hold position')]]
+    )
+  );
+  assert.deepEqual(texts(result), [
+    ['Hold position'],
+    ['Hold position'],
+    ['Hold position'],
+    ['Hold position'],
+  ]);
+});
+
+test('a gap is bridged by its length in time, not in frames', () => {
+  // One adaptively sampled frame lasting three seconds
+  const result = stabilizeLines(
+    frames([0, 0.25, [line('Hold position')]], [0.25, 3, []], [3.25, 0.25, [line('Hold position')]])
+  );
+  assert.deepEqual(texts(result), [['Hold position'], [], ['Hold position']]);
+});
+
+test('a gap is not bridged where other text covers the caption', () => {
+  const result = stabilizeLines(
+    frames(
+      [0, 0.25, [line('Hold position')]],
+      [0.25, 0.25, [line('Move out', { x: 200 })]],
+      [0.5, 0.25, [line('Hold position')]]
+    )
+  );
+  assert.deepEqual(texts(result), [['Hold position'], ['Move out'], ['Hold position']]);
+});
+
+test('input frames are not modified', () => {
+  const input = frames([0, 0.5, [line('Hold positon')]], [0.5, 0.5, [line('Hold position', {}, 1)]]);
+  const copy = structuredClone(input);
+  stabilizeLines(input);
+  assert.deepEqual(input, copy);
+});
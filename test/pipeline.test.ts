@@ -0,0 +1,122 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Recorded OCR results for a 7-second clip sampled at one frame per second.
+// The first caption flickers ("shovv") and is missed on frame 4.
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'ocr');
+
+// Read by the modules at load time, so set before importing them
+Object.assign(process.env, {
+  OCR_PROVIDER: 'fixture',
+  OCR_FIXTURES_DIR: FIXTURES_DIR,
+  OCR_DEDUP: '0',
+  OCR_RATE_LIMIT: '0',
+  REFINE_TIMING: '0',
+  TRANSLATION_PROVIDER: 'stub',
+  TRANSLATION_MEMORY: '0',
+});
+
+// Node 20's test runner can garble a test file's results when they are
+// interleaved with a lot of console output, so the pipeline's logs are muted
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+mock.method(console, 'warn', () => {});
+
+const { detectTextInFrames } = await import('../src/ocrService.js');
+const { groupDetections, renderLanguageAss, loadRenderState, getRenderSegments } = await import(
+  '../src/subtitleTranslator.js'
+);
+const { registerTranslationProvider } = await import('../src/translationService.js');
+
+const DICTIONARY: Record<string, string> = {
+  'Welcome to the show': 'Bienvenidos al programa',
+  'See you soon': 'Hasta pronto',
+};
+
+const requested: string[][] = [];
+registerTranslationProvider({
+  name: 'stub',
+  model: 'dictionary',
+  promptVersion: '1',
+  isConfigured: () => true,
+  supports: () => true,
+  async translateTexts(texts) {
+    requested.push(texts);
+    return Object.fromEntries(texts.map((t) => [t, DICTIONARY[t] ?? t]));
+  },
+  async translateSequence(texts) {
+    return this.translateTexts(texts, 'Spanish');
+  },
+});
+
+test('replays recorded OCR through grouping and translation', async () => {
+  const frames = Array.from({ length: 7 }, (_, i) => {
+    const name = `frame_${String(i + 1).padStart(4, '0')}.png`;
+    return { path: path.join(FIXTURES_DIR, name), name, frameNumber: i + 1, timestamp: i, duration: 1 };
+  });
+
+  const detections = await detectTextInFrames(frames, { language: undefined });
+  assert.equal(detections.length, 7);
+  assert.deepEqual(
+    detections.map((d) => d.texts.length),
+    [4, 4, 5, 0, 4, 3, 3]
+  );
+
+  const { subtitleFrames, sourceLanguage } = groupDetections(detections);
+  assert.equal(sourceLanguage?.code, 'en');
+  // Flicker merged and the missed frame bridged; the one-frame "SALE" is dropped
+  assert.deepEqual(
+    subtitleFrames.map((f) => f.texts.map((t) => t.text)),
+    [
+      ['Welcome to the show'],
+      ['Welcome to the show'],
+      ['Welcome to the show'],
+      ['Welcome to the show'],
+      ['Welcome to the show'],
+      ['See you soon'],
+      ['See you soon'],
+    ]
+  );
+
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-test-'));
+  try {
+    const analysis = {
+      absoluteVideoPath: path.join(outputDir, 'video.mp4'),
+      workDir: outputDir,
+      framesProcessed: detections.length,
+      ocrCallsSaved: 0,
+      ocrFailedFrames: 0,
+      ocrCached: false,
+      framesExtracted: false,
+      subtitleFrames,
+      sourceLanguage: sourceLanguage?.code,
+    };
+    const result = await renderLanguageAss(analysis, 'Spanish', outputDir, { subtitlesOnly: true });
+
+    // Each distinct caption is translated once
+    assert.deepEqual(requested, [['Welcome to the show', 'See you soon']]);
+    assert.equal(result.stats.textsDetected, 2);
+    assert.equal(result.outputPath, undefined);
+
+    const state = await loadRenderState(outputDir);
+    assert.ok(state);
+    assert.deepEqual(
+      getRenderSegments(state).map(({ start, end, originalText, translatedText }) => ({
+        start,
+        end,
+        originalText,
+        translatedText,
+      })),
+      [
+        { start: 0, end: 5, originalText: 'Welcome to the show', translatedText: 'Bienvenidos al programa' },
+        { start: 5, end: 7, originalText: 'See you soon', translatedText: 'Hasta pronto' },
+      ]
+    );
+  } finally {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
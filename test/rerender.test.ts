@@ -0,0 +1,139 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Read by the modules at load time, so set before importing them. The
+// encoder can't be found, so every burn-in re-render fails.
+Object.assign(process.env, {
+  DB_TYPE: 'memory',
+  FFMPEG_PATH: '/nonexistent/ffmpeg',
+  FFPROBE_PATH: '/nonexistent/ffprobe',
+});
+
+// Node 20's test runner can garble a test file's results when they are
+// interleaved with a lot of console output, so the pipeline's logs are muted
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+mock.method(console, 'warn', () => {});
+
+const { default: app } = await import('../src/app.js');
+const { jobManager } = await import('../src/jobManager.js');
+const { loadRenderState } = await import('../src/subtitleTranslator.js');
+
+// A completed job at revision 1, with the render state a re-render starts from
+async function completedJob() {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rerender-test-'));
+  const outputPath = path.join(workDir, 'output_translated_r1.mp4');
+  await fs.writeFile(outputPath, 'revision 1');
+  await fs.writeFile(
+    path.join(workDir, 'render.json'),
+    JSON.stringify({
+      videoPath: path.join(workDir, 'video.mp4'),
+      targetLanguage: 'Spanish',
+      options: {},
+      revision: 1,
+      outputPath,
+      detections: [],
+      translatedFrames: [],
+      segments: [{ start: 0, end: 2, originalText: 'Hello', translatedText: 'Hola' }],
+    })
+  );
+
+  const job = await jobManager.createJob('Spanish', { placement: 'bottom' });
+  await jobManager.updateJob(job.id, { revision: 1 });
+  await jobManager.setJobCompleted(job.id, outputPath, workDir, { textsDetected: 1 });
+  return { jobId: job.id, workDir, outputPath };
+}
+
+async function settled(jobId: string) {
+  for (let i = 0; i < 200; i++) {
+    const job = await jobManager.getJob(jobId);
+    if (job && !job.renderRestore) return job;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${jobId} is still re-rendering`);
+}
+
+function render(jobId: string, options: object) {
+  return app.request(`/api/jobs/${jobId}/render`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ options }),
+  });
+}
+
+test('a failed re-render keeps the previous output and reports the error', async () => {
+  const { jobId, workDir, outputPath } = await completedJob();
+  try {
+    const res = await render(jobId, { baseFontSize: 64 });
+    assert.equal(res.status, 202);
+
+    const job = await settled(jobId);
+    assert.equal(job.status, 'completed');
+    assert.equal(job.error, undefined);
+    assert.ok(job.lastRenderError);
+    assert.equal(job.revision, 1);
+    assert.equal(job.outputPath, outputPath);
+    assert.deepEqual(job.options, { placement: 'bottom' });
+    assert.equal(await fs.readFile(outputPath, 'utf-8'), 'revision 1');
+
+    const { job: status } = await (await app.request(`/api/jobs/${jobId}`)).json();
+    assert.equal(status.lastRenderError, job.lastRenderError);
+    assert.equal(status.hasOutput, true);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+test('a successful re-render bumps the revision and clears the last error', async () => {
+  const { jobId, workDir } = await completedJob();
+  try {
+    await render(jobId, { baseFontSize: 64 });
+    assert.ok((await settled(jobId)).lastRenderError);
+
+    // Subtitle-only re-renders don't encode, so this one succeeds
+    await render(jobId, { subtitlesOnly: true });
+    const job = await settled(jobId);
+    assert.equal(job.status, 'completed');
+    assert.equal(job.lastRenderError, undefined);
+    assert.equal(job.revision, 2);
+    assert.equal((await loadRenderState(workDir))?.revision, 2);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+test('a re-render left running by a restart can be cancelled back', async () => {
+  const { jobId, workDir, outputPath } = await completedJob();
+  try {
+    // What queueRender saves, with no render running on this instance
+    const before = await jobManager.getJob(jobId);
+    await jobManager.updateJob(jobId, {
+      status: 'processing',
+      progress: 40,
+      options: { baseFontSize: 64 },
+      renderRestore: {
+        status: before!.status,
+        progress: before!.progress,
+        error: before!.error,
+        options: before!.options,
+        outputPath: before!.outputPath,
+        revision: before!.revision,
+      },
+    });
+
+    const res = await app.request(`/api/jobs/${jobId}`, { method: 'DELETE' });
+    assert.deepEqual(await res.json(), { success: true, jobId, status: 'completed' });
+
+    const job = await jobManager.getJob(jobId);
+    assert.equal(job?.status, 'completed');
+    assert.equal(job?.progress, 100);
+    assert.equal(job?.renderRestore, undefined);
+    assert.equal(job?.outputPath, outputPath);
+    assert.deepEqual(job?.options, { placement: 'bottom' });
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
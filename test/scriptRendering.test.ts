@@ -0,0 +1,217 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { fileURLToPath } from 'url';
+import { inflateSync } from 'zlib';
+import ffmpeg from 'fluent-ffmpeg';
+
+// Golden images of one wrapped subtitle per complex script, rendered by
+// libass with the Noto fonts in fixtures/fonts. Run with UPDATE_GOLDEN=1
+// to rewrite the references after an intended rendering change.
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const FONTS_DIR = path.join(FIXTURES_DIR, 'fonts');
+const GOLDEN_DIR = path.join(FIXTURES_DIR, 'golden');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+// A pixel differs when a channel moves by more than this (antialiasing
+// varies slightly between FreeType builds), and an image fails when more
+// than this share of its pixels differ
+const CHANNEL_TOLERANCE = 48;
+const MAX_DIFF_RATIO = 0.005;
+
+const LINES: Record<string, string> = {
+  arabic: 'مرحبا بكم في برنامجنا، نراكم في الحلقة 12 القادمة',
+  hebrew: 'ברוכים הבאים לתוכנית שלנו, נתראה בפרק 12 הבא',
+  persian: 'به برنامه ما خوش آمدید، در قسمت بعد می‌بینیمتان',
+  urdu: 'ہمارے پروگرام میں خوش آمدید، اگلی قسط میں ملتے ہیں',
+  thai: 'ยินดีต้อนรับสู่รายการของเรา แล้วพบกันใหม่ตอนหน้า',
+  hindi: 'हमारे कार्यक्रम में आपका स्वागत है, अगले एपिसोड में मिलते हैं',
+};
+
+const OPTIONS = {
+  baseFontSize: 40,
+  marginV: 40,
+  textColorHex: '#FFFFFF',
+  bgColorHex: '#000000CC',
+  roundedRadius: 14,
+  padX: 14,
+  padTop: 8,
+  padBottom: 12,
+  maxWidthFraction: 0.7,
+};
+
+const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'script-rendering-'));
+
+// Layout and libass only see the committed fonts, never the system ones,
+// so the references don't depend on what the machine has installed. The
+// badge is drawn with the style's font (Arial), which fontconfig has to
+// substitute with one of them, or libass skips the drawing.
+const fontconfigFile = path.join(workDir, 'fonts.conf');
+await fs.writeFile(
+  fontconfigFile,
+  `<?xml version="1.0"?>
+<fontconfig>
+  <dir>${FONTS_DIR}</dir>
+  <cachedir>${path.join(workDir, 'fc-cache')}</cachedir>
+</fontconfig>
+`
+);
+Object.assign(process.env, {
+  ASS_FONTS_DIR: FONTS_DIR,
+  ASS_FONT_URL: '',
+  FONTCONFIG_FILE: fontconfigFile,
+});
+
+const { buildAssSubtitles } = await import('../src/subtitleComposer.js');
+
+const execFileAsync = promisify(execFile);
+
+// Rendering needs ffmpeg built with libass, plus ffprobe for the frame size
+async function missingTools(): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync(process.env.FFMPEG_PATH || 'ffmpeg', [
+      '-hide_banner',
+      '-filters',
+    ]);
+    if (!/\bsubtitles\b/.test(stdout)) return 'ffmpeg is built without libass';
+    await execFileAsync(process.env.FFPROBE_PATH || 'ffprobe', ['-version']);
+    return undefined;
+  } catch {
+    return 'ffmpeg and ffprobe are not installed';
+  }
+}
+const skip = await missingTools();
+
+function run(command: ffmpeg.FfmpegCommand): Promise<void> {
+  return new Promise((resolve, reject) => {
+    command.on('end', () => resolve()).on('error', reject).run();
+  });
+}
+
+function filterPath(p: string): string {
+  return p.replace(/\\/g, '\\\\').replace(/:/g, '\\:').replace(/'/g, "\\'");
+}
+
+type Image = { width: number; height: number; channels: number; pixels: Buffer };
+
+// 8-bit RGB/RGBA, non-interlaced PNG (what ffmpeg writes for rgb24/rgba)
+function decodePng(png: Buffer): Image {
+  let offset = 8;
+  let header: Buffer | undefined;
+  const idat: Buffer[] = [];
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') header = data;
+    else if (type === 'IDAT') idat.push(data);
+    offset += length + 12;
+  }
+  if (!header || header[8] !== 8 || header[12] !== 0) throw new Error('Unsupported PNG');
+  const channels = header[9] === 6 ? 4 : header[9] === 2 ? 3 : 0;
+  if (!channels) throw new Error(`Unsupported PNG colour type ${header[9]}`);
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = x >= channels && y > 0 ? pixels[(y - 1) * stride + x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      pixels[y * stride + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+  return { width, height, channels, pixels };
+}
+
+// Share of pixels whose colour differs beyond the antialiasing tolerance
+function diffRatio(actual: Image, expected: Image): number {
+  assert.deepEqual(
+    [actual.width, actual.height],
+    [expected.width, expected.height],
+    'image size changed'
+  );
+  let differing = 0;
+  for (let i = 0; i < actual.width * actual.height; i++) {
+    for (let c = 0; c < 3; c++) {
+      const a = actual.pixels[i * actual.channels + c];
+      const e = expected.pixels[i * expected.channels + c];
+      if (Math.abs(a - e) > CHANNEL_TOLERANCE) {
+        differing++;
+        break;
+      }
+    }
+  }
+  return differing / (actual.width * actual.height);
+}
+
+test.after(() => fs.rm(workDir, { recursive: true, force: true }));
+
+for (const [script, line] of Object.entries(LINES)) {
+  test(`renders ${script} subtitles like the golden image`, { skip }, async () => {
+    const frame = path.join(workDir, `${script}-frame.png`);
+    await run(
+      ffmpeg()
+        .input('color=c=0x3c5a78:s=640x360')
+        .inputFormat('lavfi')
+        .outputOptions(['-frames:v', '1'])
+        .output(frame)
+    );
+
+    const ass = await buildAssSubtitles(
+      frame,
+      [{ start: 0, end: 5, originalText: '', translatedText: line }],
+      OPTIONS,
+      path.join(workDir, 'fonts')
+    );
+    // Too long for one line, so the layout's line breaking is part of the image
+    assert.match(ass, /\\N/);
+    const assPath = path.join(workDir, `${script}.ass`);
+    await fs.writeFile(assPath, ass);
+
+    const rendered = path.join(workDir, `${script}.png`);
+    await run(
+      ffmpeg(frame)
+        .videoFilters(`subtitles='${filterPath(assPath)}':fontsdir='${filterPath(FONTS_DIR)}'`)
+        .outputOptions(['-frames:v', '1', '-pix_fmt', 'rgb24'])
+        .output(rendered)
+    );
+
+    const golden = path.join(GOLDEN_DIR, `${script}.png`);
+    if (UPDATE_GOLDEN) {
+      await fs.mkdir(GOLDEN_DIR, { recursive: true });
+      await fs.copyFile(rendered, golden);
+      return;
+    }
+
+    const ratio = diffRatio(
+      decodePng(await fs.readFile(rendered)),
+      decodePng(await fs.readFile(golden))
+    );
+    if (ratio > MAX_DIFF_RATIO) {
+      const kept = path.join(os.tmpdir(), `${script}-actual.png`);
+      await fs.copyFile(rendered, kept);
+      assert.fail(
+        `${script}: ${(ratio * 100).toFixed(2)}% of pixels differ from ${path.relative(process.cwd(), golden)} (rendered: ${kept})`
+      );
+    }
+  });
+}
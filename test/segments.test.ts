@@ -0,0 +1,263 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Read by the modules at load time, so set before importing them
+process.env.DB_TYPE = 'memory';
+
+// Node 20's test runner can garble a test file's results when they are
+// interleaved with a lot of console output, so the pipeline's logs are muted
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+mock.method(console, 'warn', () => {});
+
+const { applySegmentEdits, validateSegments } = await import('../src/segments.js');
+const { default: app } = await import('../src/app.js');
+const { jobManager } = await import('../src/jobManager.js');
+const { loadRenderState } = await import('../src/subtitleTranslator.js');
+
+const SEGMENTS = [
+  { start: 0, end: 2, originalText: 'Hello', translatedText: 'Hola' },
+  { start: 2, end: 4, originalText: 'How are you?', translatedText: '¿Cómo estás?' },
+  { start: 5, end: 7, originalText: 'Goodbye', translatedText: 'Adiós' },
+];
+
+test('validateSegments normalises a well-formed list', () => {
+  assert.deepEqual(
+    validateSegments([{ start: '1.23456', end: 2.0004, translatedText: 'Hola', box: null }]),
+    [{ start: 1.235, end: 2, originalText: '', translatedText: 'Hola' }]
+  );
+});
+
+test('validateSegments rejects bad timings', () => {
+  assert.throws(() => validateSegments({}), /segments must be an array/);
+  assert.throws(
+    () => validateSegments([{ start: -1, end: 1, translatedText: 'a' }]),
+    /Segment 0: start and end must be non-negative numbers/
+  );
+  assert.throws(
+    () => validateSegments([{ start: 'soon', end: 1, translatedText: 'a' }]),
+    /Segment 0: start and end must be non-negative numbers/
+  );
+  assert.throws(
+    () => validateSegments([{ start: 2, end: 2, translatedText: 'a' }]),
+    /Segment 0: end must be after start/
+  );
+  assert.throws(
+    () => validateSegments([{ start: 0, end: 1, translatedText: 42 }]),
+    /Segment 0: translatedText must be a string/
+  );
+});
+
+test('validateSegments rejects overlapping and out of order captions', () => {
+  assert.throws(
+    () => validateSegments([SEGMENTS[0], { ...SEGMENTS[1], start: 1.5 }]),
+    /Segment 1 overlaps or is out of order with segment 0/
+  );
+  assert.throws(
+    () => validateSegments([SEGMENTS[1], SEGMENTS[0]]),
+    /Segment 1 is out of order with segment 0/
+  );
+  // Back to back is fine
+  assert.equal(validateSegments(SEGMENTS.slice(0, 2)).length, 2);
+});
+
+test('validateSegments lets positioned lines overlap', () => {
+  const box = { x: 10, y: 20, width: 100, height: 30 };
+  const segments = validateSegments([
+    { ...SEGMENTS[0], box },
+    { ...SEGMENTS[1], start: 1, box: { ...box, y: 60 } },
+  ]);
+  assert.equal(segments.length, 2);
+  // A caption still may not overlap the caption before it
+  assert.throws(
+    () => validateSegments([SEGMENTS[0], { ...SEGMENTS[1], box }, { ...SEGMENTS[2], start: 1 }]),
+    /Segment 2 is out of order with segment 1/
+  );
+  assert.throws(
+    () => validateSegments([{ ...SEGMENTS[0], box: { ...box, width: 0 } }]),
+    /Segment 0: box needs/
+  );
+});
+
+test('applySegmentEdits updates, splits, merges and deletes', () => {
+  const edited = applySegmentEdits(SEGMENTS, [
+    { op: 'update', index: 0, translatedText: '¡Hola!' },
+    { op: 'split', index: 2, at: 6, translatedText: ['Adiós', 'hasta pronto'] },
+    { op: 'merge', index: 0 },
+  ]);
+  assert.deepEqual(edited, [
+    { start: 0, end: 4, originalText: 'Hello How are you?', translatedText: '¡Hola! ¿Cómo estás?' },
+    { start: 5, end: 6, originalText: 'Goodbye', translatedText: 'Adiós' },
+    { start: 6, end: 7, originalText: 'Goodbye', translatedText: 'hasta pronto' },
+  ]);
+
+  assert.deepEqual(applySegmentEdits(SEGMENTS, [{ op: 'delete', index: 1 }]), [
+    SEGMENTS[0],
+    SEGMENTS[2],
+  ]);
+  // The input list is left alone
+  assert.equal(SEGMENTS[0].translatedText, 'Hola');
+});
+
+test('applySegmentEdits indexes refer to the list left by the previous edit', () => {
+  const edited = applySegmentEdits(SEGMENTS, [
+    { op: 'delete', index: 0 },
+    { op: 'update', index: 0, translatedText: 'second' },
+  ]);
+  assert.deepEqual(
+    edited.map((s) => s.translatedText),
+    ['second', 'Adiós']
+  );
+});
+
+test('applySegmentEdits rejects invalid indexes', () => {
+  for (const index of [-1, 3, 1.5, undefined]) {
+    assert.throws(
+      () => applySegmentEdits(SEGMENTS, [{ op: 'delete', index: index as number }]),
+      new RegExp(`Edit 0: no segment at index ${index}`)
+    );
+  }
+  // The second edit sees the list as the first one left it
+  assert.throws(
+    () =>
+      applySegmentEdits(SEGMENTS, [
+        { op: 'delete', index: 2 },
+        { op: 'update', index: 2, translatedText: 'gone' },
+      ]),
+    /Edit 1: no segment at index 2/
+  );
+  assert.throws(
+    () => applySegmentEdits(SEGMENTS, [{ op: 'merge', index: 2 }]),
+    /Edit 0: no segment after index 2 to merge with/
+  );
+  assert.throws(
+    () => applySegmentEdits(SEGMENTS, [{ op: 'rename', index: 0 } as any]),
+    /Edit 0: unknown op "rename"/
+  );
+  assert.throws(() => applySegmentEdits(SEGMENTS, {} as any), /edits must be an array/);
+});
+
+test('applySegmentEdits keeps splits and timing changes in bounds', () => {
+  for (const at of [0, 2, 3]) {
+    assert.throws(
+      () => applySegmentEdits(SEGMENTS, [{ op: 'split', index: 0, at }]),
+      /Edit 0: split point must be inside the segment/
+    );
+  }
+  assert.throws(
+    () => applySegmentEdits(SEGMENTS, [{ op: 'update', index: 1, end: 5.5 }]),
+    /Segment 2 overlaps or is out of order with segment 1/
+  );
+  assert.throws(
+    () => applySegmentEdits(SEGMENTS, [{ op: 'update', index: 0, start: 3 }]),
+    /Segment 0: end must be after start/
+  );
+});
+
+// A finished subtitle-only job, so its re-render doesn't need ffmpeg
+async function completedJob() {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'segments-test-'));
+  await fs.writeFile(
+    path.join(workDir, 'render.json'),
+    JSON.stringify({
+      videoPath: path.join(workDir, 'video.mp4'),
+      targetLanguage: 'Spanish',
+      options: { subtitlesOnly: true },
+      revision: 1,
+      detections: [],
+      translatedFrames: [],
+      segments: SEGMENTS,
+    })
+  );
+  const job = await jobManager.createJob('Spanish', { subtitlesOnly: true });
+  await jobManager.updateJob(job.id, { revision: 1 });
+  await jobManager.setJobCompleted(job.id, undefined, workDir);
+  return { jobId: job.id, workDir };
+}
+
+function patchSegments(jobId: string, body: object) {
+  return app.request(`/api/jobs/${jobId}/segments`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function settled(jobId: string) {
+  for (let i = 0; i < 200; i++) {
+    const job = await jobManager.getJob(jobId);
+    if (job && !job.renderRestore) return job;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${jobId} is still re-rendering`);
+}
+
+test('PATCH segments saves the edits and re-renders a new revision', async () => {
+  const { jobId, workDir } = await completedJob();
+  try {
+    const res = await patchSegments(jobId, {
+      edits: [{ op: 'update', index: 1, translatedText: '¿Qué tal?' }],
+    });
+    assert.equal(res.status, 202);
+    const body = await res.json();
+    assert.equal(body.status, 'queued');
+    assert.deepEqual(body.segments[1], { index: 1, ...SEGMENTS[1], translatedText: '¿Qué tal?' });
+
+    const job = await settled(jobId);
+    assert.equal(job.status, 'completed');
+    assert.equal(job.revision, 2);
+    const state = await loadRenderState(workDir);
+    assert.equal(state?.revision, 2);
+    assert.equal(state?.segments?.[1].translatedText, '¿Qué tal?');
+
+    const listed = await (await app.request(`/api/jobs/${jobId}/segments`)).json();
+    assert.equal(listed.revision, 2);
+    assert.equal(listed.edited, true);
+    assert.equal(listed.segments[1].translatedText, '¿Qué tal?');
+
+    // Each edit is another revision
+    await patchSegments(jobId, { segments: SEGMENTS });
+    assert.equal((await settled(jobId)).revision, 3);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+test('PATCH segments rejects invalid edits without re-rendering', async () => {
+  const { jobId, workDir } = await completedJob();
+  try {
+    for (const body of [
+      { edits: [{ op: 'delete', index: 7 }] },
+      { segments: [SEGMENTS[0], { ...SEGMENTS[1], start: 1 }] },
+      { segments: SEGMENTS, edits: [] },
+      {},
+    ]) {
+      const res = await patchSegments(jobId, body);
+      assert.equal(res.status, 400);
+      assert.equal((await res.json()).success, false);
+    }
+
+    const job = await jobManager.getJob(jobId);
+    assert.equal(job?.status, 'completed');
+    assert.equal(job?.revision, 1);
+    assert.equal(job?.renderRestore, undefined);
+    assert.equal((await loadRenderState(workDir))?.revision, 1);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
+
+test('PATCH segments waits for a running job to finish', async () => {
+  const { jobId, workDir } = await completedJob();
+  try {
+    await jobManager.setJobProcessing(jobId);
+    const res = await patchSegments(jobId, { edits: [{ op: 'delete', index: 0 }] });
+    assert.equal(res.status, 409);
+    assert.equal((await loadRenderState(workDir))?.segments?.length, 3);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assTime, escapeAssText, toSrt, toVtt } from '../src/subtitleFormats.js';
+
+const SEGMENTS = [
+  { start: 0, end: 1.5, originalText: 'Hello', translatedText: 'Hola' },
+  {
+    start: 59.9995,
+    end: 62.25,
+    originalText: 'Two lines',
+    translatedText: '  Primera línea \r\n\n  segunda línea ',
+  },
+  { start: 3599.9995, end: 3723.0104, originalText: '', translatedText: 'Fish & <chips>' },
+];
+
+test('toSrt writes numbered cues with rounded timestamps', () => {
+  assert.equal(
+    toSrt(SEGMENTS),
+    [
+      '1',
+      '00:00:00,000 --> 00:00:01,500',
+      'Hola',
+      '',
+      '2',
+      '00:01:00,000 --> 00:01:02,250',
+      'Primera línea',
+      'segunda línea',
+      '',
+      '3',
+      '01:00:00,000 --> 01:02:03,010',
+      'Fish & <chips>',
+      '',
+    ].join('\n')
+  );
+});
+
+test('toSrt skips empty and zero-length cues without a gap in the numbering', () => {
+  assert.equal(
+    toSrt([
+      { start: 0, end: 1, originalText: '', translatedText: ' \n ' },
+      { start: 1, end: 1, originalText: '', translatedText: 'Never shown' },
+      { start: 2, end: 3, originalText: '', translatedText: 'Shown' },
+    ]),
+    '1\n00:00:02,000 --> 00:00:03,000\nShown\n'
+  );
+});
+
+test('toVtt writes the header and escaped cues', () => {
+  assert.equal(
+    toVtt(SEGMENTS),
+    [
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:01.500',
+      'Hola',
+      '',
+      '00:01:00.000 --> 00:01:02.250',
+      'Primera línea',
+      'segunda línea',
+      '',
+      '01:00:00.000 --> 01:02:03.010',
+      'Fish &amp; &lt;chips&gt;',
+      '',
+    ].join('\n')
+  );
+});
+
+test('toVtt of no cues is just the header', () => {
+  assert.equal(toVtt([]), 'WEBVTT\n');
+});
+
+test('assTime rounds to centiseconds and rolls over into the hour', () => {
+  assert.equal(assTime(0), '0:00:00.00');
+  assert.equal(assTime(-1), '0:00:00.00');
+  assert.equal(assTime(1.005), '0:00:01.01');
+  assert.equal(assTime(59.995), '0:01:00.00');
+  assert.equal(assTime(3599.995), '1:00:00.00');
+  assert.equal(assTime(36061.5), '10:01:01.50');
+});
+
+test('escapeAssText keeps override blocks and escapes out of the text', () => {
+  assert.equal(escapeAssText('{\\b1}bold{\\b0}'), '(\\⁠b1)bold(\\⁠b0)');
+  assert.equal(escapeAssText('a literal \\N and \\h'), 'a literal \\⁠N and \\⁠h');
+  assert.equal(escapeAssText('first\nsecond\r\nthird'), 'first\\Nsecond\\Nthird');
+  assert.equal(escapeAssText(''), '');
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { directionalLine, graphemes, wrapText } from '../src/textLayout.js';
+
+// Line breaking and direction without ffmpeg; scriptRendering.test.ts checks
+// how libass draws the result
+
+// Unicode RIGHT-TO-LEFT EMBEDDING ... POP DIRECTIONAL FORMATTING
+const RLE = '\u202B';
+const PDF = '\u202C';
+
+// Every grapheme 10px wide, so a line of width w holds w / 10 of them
+const measure = (line: string) => graphemes(line).length * 10;
+
+test('wrapText breaks between words and keeps punctuation on the line before', () => {
+  assert.deepEqual(wrapText('Hold your position, we are coming', 150, measure), [
+    'Hold your',
+    'position, we',
+    'are coming',
+  ]);
+  assert.deepEqual(wrapText('  Hello,   world!  ', 1000, measure), ['Hello,   world!']);
+  assert.deepEqual(wrapText(' ', 100, measure), []);
+});
+
+test('wrapText breaks a word wider than the line between graphemes', () => {
+  assert.deepEqual(wrapText('Supercalifragilistic', 80, measure), ['Supercal', 'ifragili', 'stic']);
+  // Conjuncts and vowel signs stay with their consonant
+  assert.deepEqual(wrapText('नमस्ते', 20, measure), ['नम', 'स्ते']);
+});
+
+test('wrapText finds word boundaries in scripts without spaces', () => {
+  assert.deepEqual(wrapText('ยินดีต้อนรับสู่รายการของเรา', 80, measure), [
+    'ยินดีต้อนรับ',
+    'สู่รายการ',
+    'ของเรา',
+  ]);
+  assert.deepEqual(wrapText('今日はいい天気ですね', 50, measure), ['今日はいい', '天気ですね']);
+});
+
+test('wrapText keeps right-to-left text in logical order', () => {
+  assert.deepEqual(wrapText('مرحبا بكم في برنامجنا', 100, measure), [
+    'مرحبا بكم',
+    'في',
+    'برنامجنا',
+  ]);
+});
+
+test('directionalLine embeds right-to-left lines so numbers and names stay in place', () => {
+  assert.equal(directionalLine('12 שלום'), `${RLE}12 שלום${PDF}`);
+  assert.equal(directionalLine('مرحبا بكم في Netflix 12'), `${RLE}مرحبا بكم في Netflix 12${PDF}`);
+  assert.equal(directionalLine('خوش آمدید'), `${RLE}خوش آمدید${PDF}`);
+});
+
+test('directionalLine leaves left-to-right lines alone', () => {
+  assert.equal(directionalLine('Hello'), 'Hello');
+  // Mostly Latin text with a right-to-left word is still a left-to-right line
+  assert.equal(directionalLine('Hello world مرحبا'), 'Hello world مرحبا');
+  assert.equal(directionalLine('ยินดีต้อนรับ'), 'ยินดีต้อนรับ');
+  assert.equal(directionalLine('12'), '12');
+});